@@ -1,59 +1,273 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ImageFile, BatchItem, ImageAdjustments } from './types';
-import { generatePodImage } from './services/geminiService';
+import { ImageFile, BatchItem, AdjustmentLayer, AdjustmentPreset, Project, ProjectSummary, JobState, GenerationSettings, PromptTemplate, ColumnMapping, ImportReport, WriteBackSettings, MockupSettings, VectorTrace, UsageBudget, UsageRecord, ResearchListing, ResearchSettings, ScreeningSettings, ListingMetadata, GenerationFailure, ResponseMetadata } from './types';
+import { generatePodImage, isAbortError, DEFAULT_GENERATION_SETTINGS, GenerationUsage } from './services/geminiService';
+import { getImageProvider, withProviderModels } from './services/imageProvider';
+import { toGenerationFailure } from './services/generationErrors';
+import { createJobQueue, DEFAULT_QUEUE_SETTINGS, JobCancelledError, QueueSettings, QueueSnapshot } from './services/queueService';
+import { knockoutBlack, DEFAULT_KNOCKOUT_OPTIONS, KnockoutOptions } from './services/knockoutService';
+import { applyExportPreset, EXPORT_PRESETS, getExportPreset, ORIGINAL_PRESET_ID } from './services/exportService';
+import { BUILT_IN_TEMPLATES, buildRowFields, buildTemplateVariables, loadTemplates, resolveBatchPrompt, saveTemplates } from './services/promptTemplateService';
+import { parseCSV, isEmptyRow } from './services/csvParser';
+import { fetchSheetCsv, guessColumnMapping, loadColumnMapping, mapRow, saveColumnMapping } from './services/sheetService';
+import { buildWriteBackPayload, canWriteBack, DEFAULT_WRITE_BACK_SETTINGS, loadWriteBackSettings, postWriteBack, resultFileName, saveWriteBackSettings } from './services/writeBackService';
+import { clearReferenceCaches, clearSlot, DEFAULT_REFERENCE_MAX_DIMENSION, fetchReference, fileToImageFile, fillEmptySlots, normalizeSlots, placeInSlots, prepareReferences, REFERENCE_MAX_DIMENSIONS, swapSlots } from './services/referenceImages';
+import { appendResult, branchVersion, clearHeads, describeReferences, getHeadId, getResponseVersion, restoreVersion, resultsKey, ResultRef, setSlotImage } from './services/historyService';
+import { DEFAULT_MOCKUP_SETTINGS, getMockupTemplate, loadMockupSettings, prepareMockupDesign, renderMockup, saveMockupSettings } from './services/mockupService';
+import { applyAdjustmentsToBatch, clearAdjustments, cloneLayers, getAdjustments, loadAdjustmentPresets, renderAdjustments, renderAdjustmentsToCanvas, saveAdjustmentPresets, sameLayers, setAdjustments } from './services/adjustmentService';
+import { loadImage } from './services/imageUtils';
+import { compositeInpaint, prepareInpaint } from './services/inpaintService';
+import { clearPicks, countPicks, getPick, isFavorite } from './services/reviewService';
+import { UPSCALE_FACTORS, upscaleImage } from './services/upscaleService';
+import { clearVectors, DEFAULT_VECTORIZE_OPTIONS, getVector, setVector, vectorizeImage } from './services/vectorizeService';
+import { DEFAULT_RESEARCH_SETTINGS, fullSizeImageUrl, loadResearchSettings, saveResearchSettings } from './services/researchService';
+import { buildScreeningReport, DEFAULT_SCREENING_SETTINGS, isBlocked, loadScreeningSettings, saveScreeningSettings, screenBatch } from './services/screeningService';
+import { buildListingsCsv, buildListingsJson, clearListings, countListings, generateListing, getListing, ListingExportEntry, listingTargets, setListing } from './services/listingService';
+import { canAfford, createUsageRecord, DEFAULT_USAGE_BUDGET, dayKey, estimateJobCost, estimateRunCost, formatUsd, isOverBudget, loadUsageBudget, saveUsageBudget, spentInScope } from './services/usageService';
+import { createProject, listProjects, loadProject, saveProject, deleteProject, getSetting, setSetting, addUsageRecord, listUsageRecords, clearUsageRecords } from './services/storageService';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import JobProgressBar from './components/JobProgressBar';
+import GenerationSettingsFields from './components/GenerationSettingsFields';
+import PromptTemplateManager from './components/PromptTemplateManager';
+import ColumnMappingModal from './components/ColumnMappingModal';
+import ImportReportModal from './components/ImportReportModal';
+import WriteBackPanel from './components/WriteBackPanel';
+import ReferenceSlot, { SlotDragData } from './components/ReferenceSlot';
+import HistoryModal from './components/HistoryModal';
+import ReviewModal from './components/ReviewModal';
+import PickBadge from './components/PickBadge';
+import AdjustmentStackEditor from './components/AdjustmentStackEditor';
+import AdjustedImage from './components/AdjustedImage';
+import MockupModal from './components/MockupModal';
+import ResultTileActions from './components/ResultTileActions';
+import UsageDashboard from './components/UsageDashboard';
+import ResearchPanel from './components/ResearchPanel';
+import BlocklistManager from './components/BlocklistManager';
+import ListingEditor from './components/ListingEditor';
+import GenerationErrorNotice from './components/GenerationErrorNotice';
+import ResponseDrawer from './components/ResponseDrawer';
+import ResponseDetails from './components/ResponseDetails';
 import JSZip from 'jszip';
 
+const DEFAULT_SHEET_URL = 'https://docs.google.com/spreadsheets/d/1Z6oK-BNw8qDNBO9fQ28XOD3eTJzQwdPL6HCePR9uC0U/edit?gid=224107427';
+const AUTOSAVE_DELAY_MS = 600;
+
+type ExportKnockoutSettings = KnockoutOptions & { enabled: boolean };
+// upscale: 0 = tắt, ngược lại là hệ số phóng to trước khi áp preset
+type ExportPostProcess = { upscale: number; vectorize: boolean };
+type MaskTool = 'off' | 'brush' | 'erase' | 'lasso';
+
+declare global {
+  interface Window {
+    // Có sẵn khi chạy trong AI Studio: chọn API key trả phí cho model Pro
+    aistudio?: {
+      hasSelectedApiKey: () => Promise<boolean>;
+      openSelectKey: () => Promise<void>;
+    };
+  }
+}
+
+const PREVIEW_MAX_DIMENSION = 1600;
+
 const EditModal: React.FC<{
   image: string;
   batchName: string;
-  onSave: (newBase64: string, applyToAll: boolean) => void;
-  onRegenerate: (prompt: string, currentImage: string) => Promise<void>;
+  savedLayers: readonly AdjustmentLayer[];
+  vector?: VectorTrace;
+  response?: ResponseMetadata;
+  presets: AdjustmentPreset[];
+  onPresetsChange: (presets: AdjustmentPreset[]) => void;
+  onSave: (newBase64: string, kind?: 'adjust' | 'upscale') => void;
+  onSaveLayers: (layers: AdjustmentLayer[], applyToBatch: boolean) => void;
+  onSaveVector: (svg: string, colors: number) => void;
+  onRegenerate: (prompt: string, currentImage: string, mask?: string) => Promise<GenerationFailure | null>;
   onClose: () => void;
-}> = ({ image, batchName, onSave, onRegenerate, onClose }) => {
-  const [adjustments, setAdjustments] = useState<ImageAdjustments>({ brightness: 100, contrast: 100, rotation: 0 });
+}> = ({ image, batchName, savedLayers, vector, response, presets, onPresetsChange, onSave, onSaveLayers, onSaveVector, onRegenerate, onClose }) => {
+  const [layers, setLayers] = useState<AdjustmentLayer[]>(() => [...savedLayers]);
   const [prompt, setPrompt] = useState('');
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [regenerateError, setRegenerateError] = useState<GenerationFailure | null>(null);
   const [history, setHistory] = useState<string[]>([]);
   const [redoStack, setRedoStack] = useState<string[]>([]);
+  const [knockout, setKnockout] = useState<KnockoutOptions>(DEFAULT_KNOCKOUT_OPTIONS);
+  const [isKnockingOut, setIsKnockingOut] = useState(false);
+  const [presetId, setPresetId] = useState(ORIGINAL_PRESET_ID);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [maskTool, setMaskTool] = useState<MaskTool>('off');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const [lassoPoints, setLassoPoints] = useState<{ x: number; y: number }[]>([]);
+  const [isUpscaling, setIsUpscaling] = useState(false);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [vectorColors, setVectorColors] = useState(vector?.colors ?? DEFAULT_VECTORIZE_OPTIONS.colors);
+  const [isVectorizing, setIsVectorizing] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.onload = () => {
-      const isRotated = adjustments.rotation % 180 !== 0;
-      canvas.width = isRotated ? img.height : img.width;
-      canvas.height = isRotated ? img.width : img.height;
-      if (ctx) {
-        ctx.filter = `brightness(${adjustments.brightness}%) contrast(${adjustments.contrast}%)`;
-        ctx.translate(canvas.width / 2, canvas.height / 2);
-        ctx.rotate((adjustments.rotation * Math.PI) / 180);
-        ctx.drawImage(img, -img.width / 2, -img.height / 2);
-      }
+    let cancelled = false;
+    // Đang vẽ mask thì xem ảnh gốc (chưa áp layer) để mask khớp đúng pixel với ảnh gửi đi
+    const previewLayers = maskTool === 'off' ? layers : [];
+    Promise.all([loadImage(image), renderAdjustmentsToCanvas(image, previewLayers, PREVIEW_MAX_DIMENSION)])
+      .then(([img, rendered]) => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (cancelled || !canvas || !ctx) return;
+        setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+        canvas.width = rendered.width;
+        canvas.height = rendered.height;
+        ctx.drawImage(rendered, 0, 0);
+        // Mask vẽ theo pixel của ảnh gốc; đổi kích thước (ảnh khác) thì mask cũ không còn ý nghĩa
+        const mask = maskRef.current;
+        if (mask && (mask.width !== img.naturalWidth || mask.height !== img.naturalHeight)) {
+          mask.width = img.naturalWidth;
+          mask.height = img.naturalHeight;
+          setHasMask(false);
+        }
+      })
+      .catch(e => console.warn('Could not render preview', e));
+    return () => { cancelled = true; };
+  }, [image, layers, maskTool]);
+
+  const maskPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (e.currentTarget.width / rect.width),
+      y: (e.clientY - rect.top) * (e.currentTarget.height / rect.height),
     };
-    img.src = image;
-  }, [image, adjustments]);
+  };
+
+  const paintStroke = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const ctx = maskRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = maskTool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = 'rgb(244, 63, 94)';
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    if (maskTool !== 'erase') setHasMask(true);
+  };
+
+  const handleMaskDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (maskTool === 'off') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = maskPoint(e);
+    lastPointRef.current = point;
+    if (maskTool === 'lasso') setLassoPoints([point]);
+    else paintStroke(point, point);
+  };
+
+  const handleMaskMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = maskPoint(e);
+    if (maskTool === 'lasso') setLassoPoints(prev => [...prev, point]);
+    else paintStroke(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handleMaskUp = () => {
+    lastPointRef.current = null;
+    if (maskTool !== 'lasso' || lassoPoints.length < 3) return setLassoPoints([]);
+    const ctx = maskRef.current?.getContext('2d');
+    if (ctx) {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = 'rgb(244, 63, 94)';
+      ctx.beginPath();
+      lassoPoints.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+      setHasMask(true);
+    }
+    setLassoPoints([]);
+  };
+
+  const clearMask = () => {
+    const mask = maskRef.current;
+    mask?.getContext('2d')?.clearRect(0, 0, mask.width, mask.height);
+    setHasMask(false);
+  };
 
   const handleRegenerate = async () => {
     if (!prompt.trim()) return;
     setHistory(prev => [...prev, image]);
     setRedoStack([]); 
     setIsRegenerating(true);
-    await onRegenerate(prompt, image);
+    setRegenerateError(null);
+    const failure = await onRegenerate(prompt, image, hasMask ? maskRef.current?.toDataURL('image/png') : undefined);
     setIsRegenerating(false);
+    if (failure) {
+      // Ảnh không đổi nên bỏ bước undo vừa thêm, giữ prompt để sửa lại
+      setHistory(prev => prev.slice(0, -1));
+      setRegenerateError(failure);
+      return;
+    }
     setPrompt('');
   };
 
+  const handleKnockout = async () => {
+    setIsKnockingOut(true);
+    try {
+      const result = await knockoutBlack(image, knockout);
+      setHistory(prev => [...prev, image]);
+      setRedoStack([]);
+      onSave(result);
+    } catch (e) {
+      alert("Error: " + e);
+    } finally {
+      setIsKnockingOut(false);
+    }
+  };
+
+  const handleUpscale = async (factor: number) => {
+    setIsUpscaling(true);
+    try {
+      const result = await upscaleImage(image, factor);
+      if (result.backend === 'none') {
+        alert("Ảnh đã đạt kích thước tối đa, không thể phóng to thêm.");
+        return;
+      }
+      setHistory(prev => [...prev, image]);
+      setRedoStack([]);
+      onSave(result.image, 'upscale');
+    } catch (e) {
+      alert("Error: " + e);
+    } finally {
+      setIsUpscaling(false);
+    }
+  };
+
+  const downloadSvg = (svg: string) => {
+    const link = document.createElement('a');
+    link.download = `${cleanFileName(batchName)}.svg`;
+    link.href = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleVectorize = async () => {
+    setIsVectorizing(true);
+    try {
+      const svg = await vectorizeImage(await renderAdjustments(image, layers), { ...DEFAULT_VECTORIZE_OPTIONS, colors: vectorColors });
+      onSaveVector(svg, vectorColors);
+      downloadSvg(svg);
+    } catch (e) {
+      alert("Error: " + e);
+    } finally {
+      setIsVectorizing(false);
+    }
+  };
+
   const handleUndo = () => {
     if (history.length === 0) return;
     const previous = history[history.length - 1];
     setRedoStack(prev => [...prev, image]);
     setHistory(prev => prev.slice(0, -1));
-    onSave(previous, false);
+    onSave(previous);
   };
 
   const handleRedo = () => {
@@ -61,26 +275,66 @@ const EditModal: React.FC<{
     const next = redoStack[redoStack.length - 1];
     setHistory(prev => [...prev, image]);
     setRedoStack(prev => prev.slice(0, -1));
-    onSave(next, false);
+    onSave(next);
   };
 
   const cleanFileName = (name: string) => {
     return name.replace(/[^a-zA-Z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
   };
 
-  const handleDownload = () => {
-    if (!canvasRef.current) return;
-    const link = document.createElement('a');
-    link.download = `${cleanFileName(batchName)}.png`;
-    link.href = canvasRef.current.toDataURL('image/png');
-    link.click();
+  const savePreset = () => {
+    const name = window.prompt('Tên preset:', `Preset ${presets.length + 1}`);
+    if (!name?.trim()) return;
+    const preset: AdjustmentPreset = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: name.trim(),
+      layers: cloneLayers(layers),
+      updatedAt: Date.now(),
+    };
+    onPresetsChange([...presets, preset]);
+  };
+
+  const deletePreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset || !confirm(`Xóa preset "${preset.name}"?`)) return;
+    onPresetsChange(presets.filter(p => p.id !== id));
+  };
+
+  const isLayersDirty = !sameLayers(layers, savedLayers);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const link = document.createElement('a');
+      link.download = `${cleanFileName(batchName)}.png`;
+      link.href = await applyExportPreset(await renderAdjustments(image, layers), getExportPreset(presetId));
+      link.click();
+    } catch (e) {
+      alert("Error: " + e);
+    } finally {
+      setIsDownloading(false);
+    }
   };
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
       <div className="bg-white rounded-[32px] w-full max-w-6xl overflow-hidden shadow-2xl flex flex-col md:flex-row h-[90vh]">
         <div className="flex-1 bg-slate-100 p-8 flex items-center justify-center overflow-hidden bg-checkered relative">
-          <canvas ref={canvasRef} className="max-w-full max-h-full object-contain shadow-2xl rounded-xl" />
+          <div className="relative max-w-full">
+            <canvas ref={canvasRef} className="block max-w-full max-h-[calc(90vh-4rem)] shadow-2xl rounded-xl" />
+            <canvas
+              ref={maskRef}
+              onPointerDown={handleMaskDown}
+              onPointerMove={handleMaskMove}
+              onPointerUp={handleMaskUp}
+              className={`absolute inset-0 w-full h-full opacity-50 touch-none ${maskTool === 'off' ? 'pointer-events-none' : 'cursor-crosshair'}`}
+            />
+            {lassoPoints.length > 1 && maskRef.current && (
+              <svg viewBox={`0 0 ${maskRef.current.width} ${maskRef.current.height}`} className="absolute inset-0 w-full h-full pointer-events-none">
+                <polyline points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')} fill="rgba(244, 63, 94, 0.2)" stroke="rgb(244, 63, 94)" strokeWidth={Math.max(2, maskRef.current.width / 400)} />
+              </svg>
+            )}
+          </div>
           {isRegenerating && (
              <div className="absolute inset-0 bg-white/60 backdrop-blur-sm flex items-center justify-center z-50">
                 <div className="text-center">
@@ -100,16 +354,78 @@ const EditModal: React.FC<{
             </div>
             <div className="space-y-6">
               <div className="space-y-3">
-                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Adjustments</label>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Adjustment Layers{isLayersDirty ? ' · Unsaved' : ''}</label>
+                <AdjustmentStackEditor layers={layers} onChange={setLayers} />
+                {maskTool !== 'off' && layers.length > 0 && (
+                  <p className="text-[9px] font-bold text-rose-500">Đang vẽ mask: xem trước ảnh gốc, chưa áp layer.</p>
+                )}
+                <div className="flex gap-2">
+                  <select value="" onChange={e => { const preset = presets.find(p => p.id === e.target.value); if (preset) setLayers(cloneLayers(preset.layers)); }} className="flex-1 min-w-0 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-[10px] font-black uppercase text-slate-600 outline-none">
+                    <option value="">Load preset...</option>
+                    {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                  <button onClick={savePreset} disabled={layers.length === 0} className="bg-slate-100 text-slate-600 px-3 rounded-xl font-black uppercase text-[9px] tracking-widest hover:bg-slate-200 transition-all disabled:opacity-50">Save</button>
+                </div>
+                {presets.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {presets.map(p => (
+                      <button key={p.id} onClick={() => deletePreset(p.id)} title="Xóa preset" className="text-[8px] font-black uppercase px-2 py-1 rounded-lg bg-slate-50 text-slate-400 hover:bg-red-50 hover:text-red-500 transition-all">{p.name} ✕</button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Knockout Black</label>
+                <div className="space-y-4 bg-slate-50 p-4 rounded-2xl">
+                   <div className="space-y-2">
+                      <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>Tolerance</span><span>{knockout.tolerance}</span></div>
+                      <input type="range" min="0" max="128" value={knockout.tolerance} onChange={e => setKnockout(p => ({...p, tolerance: parseInt(e.target.value)}))} className="w-full accent-indigo-600 h-1 bg-slate-200 rounded-full appearance-none" />
+                   </div>
+                   <div className="space-y-2">
+                      <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>Feather</span><span>{knockout.feather}</span></div>
+                      <input type="range" min="0" max="64" value={knockout.feather} onChange={e => setKnockout(p => ({...p, feather: parseInt(e.target.value)}))} className="w-full accent-indigo-600 h-1 bg-slate-200 rounded-full appearance-none" />
+                   </div>
+                   <button onClick={handleKnockout} disabled={isKnockingOut || isRegenerating} className="w-full bg-slate-900 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-600 transition-all disabled:bg-slate-300">
+                     {isKnockingOut ? 'Processing...' : 'Remove Black BG'}
+                   </button>
+                </div>
+              </div>
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Print Resolution{imageSize ? ` · ${imageSize.width}×${imageSize.height}` : ''}</label>
                 <div className="space-y-4 bg-slate-50 p-4 rounded-2xl">
+                   <div className="grid grid-cols-3 gap-1">
+                     {UPSCALE_FACTORS.map(f => (
+                       <button key={f} onClick={() => handleUpscale(f)} disabled={isUpscaling || isRegenerating} className="py-2 rounded-lg text-[9px] font-black uppercase bg-white text-slate-500 hover:bg-sky-500 hover:text-white transition-all disabled:opacity-50">Upscale ×{f}</button>
+                     ))}
+                   </div>
+                   {isUpscaling && <p className="text-[9px] font-bold text-sky-500">Đang phóng to...</p>}
                    <div className="space-y-2">
-                      <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>Brightness</span><span>{adjustments.brightness}%</span></div>
-                      <input type="range" min="0" max="200" value={adjustments.brightness} onChange={e => setAdjustments(p => ({...p, brightness: parseInt(e.target.value)}))} className="w-full accent-indigo-600 h-1 bg-slate-200 rounded-full appearance-none" />
+                      <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>SVG Colors</span><span>{vectorColors}</span></div>
+                      <input type="range" min="2" max="16" value={vectorColors} onChange={e => setVectorColors(parseInt(e.target.value))} className="w-full accent-indigo-600 h-1 bg-slate-200 rounded-full appearance-none" />
+                   </div>
+                   <button onClick={handleVectorize} disabled={isVectorizing || isRegenerating} className="w-full bg-slate-900 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-600 transition-all disabled:bg-slate-300">
+                     {isVectorizing ? 'Tracing...' : 'Vectorize to SVG'}
+                   </button>
+                   {vector && (
+                     <button onClick={() => downloadSvg(vector.svg)} className="w-full bg-white text-slate-500 py-2 rounded-xl font-black uppercase text-[9px] tracking-widest hover:bg-slate-100 transition-all">Download saved SVG ({vector.colors} colors)</button>
+                   )}
+                   <p className="text-[9px] font-bold text-slate-400">Vectorize hợp với thiết kế màu phẳng; ảnh nhiều chuyển màu nên dùng Upscale.</p>
+                </div>
+              </div>
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Mask (Inpaint)</label>
+                <div className="space-y-4 bg-slate-50 p-4 rounded-2xl">
+                   <div className="grid grid-cols-4 gap-1">
+                     {(['off', 'brush', 'erase', 'lasso'] as MaskTool[]).map(tool => (
+                       <button key={tool} onClick={() => setMaskTool(tool)} className={`py-2 rounded-lg text-[9px] font-black uppercase transition-all ${maskTool === tool ? 'bg-rose-500 text-white' : 'bg-white text-slate-500 hover:bg-slate-100'}`}>{tool}</button>
+                     ))}
                    </div>
                    <div className="space-y-2">
-                      <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>Contrast</span><span>{adjustments.contrast}%</span></div>
-                      <input type="range" min="0" max="200" value={adjustments.contrast} onChange={e => setAdjustments(p => ({...p, contrast: parseInt(e.target.value)}))} className="w-full accent-indigo-600 h-1 bg-slate-200 rounded-full appearance-none" />
+                      <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>Brush Size</span><span>{brushSize}px</span></div>
+                      <input type="range" min="4" max="300" value={brushSize} onChange={e => setBrushSize(parseInt(e.target.value))} className="w-full accent-rose-500 h-1 bg-slate-200 rounded-full appearance-none" />
                    </div>
+                   <button onClick={clearMask} disabled={!hasMask} className="w-full bg-white text-slate-500 py-2 rounded-xl font-black uppercase text-[9px] tracking-widest hover:bg-slate-100 transition-all disabled:opacity-50">Clear Mask</button>
+                   <p className="text-[9px] font-bold text-slate-400">{hasMask ? 'Redesign chỉ sửa vùng đã tô, phần còn lại giữ nguyên.' : 'Chưa có mask: Redesign sẽ sửa toàn bộ ảnh.'}</p>
                 </div>
               </div>
               <div className="space-y-3">
@@ -126,18 +442,28 @@ const EditModal: React.FC<{
                 </div>
                 <button onClick={handleRegenerate} disabled={isRegenerating || !prompt.trim()} className="w-full mt-2 bg-indigo-600 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-700 transition-all flex items-center justify-center gap-2 shadow-lg shadow-indigo-100 disabled:bg-slate-300">
                   <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"/></svg>
-                  Redesign
+                  {hasMask ? 'Redesign Masked Area' : 'Redesign'}
                 </button>
+                {regenerateError && <GenerationErrorNotice failure={regenerateError} />}
+                <details className="bg-slate-50 rounded-2xl">
+                  <summary className="px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">Model Response{response?.finishReason && response.finishReason !== 'STOP' ? ` · ${response.finishReason}` : ''}</summary>
+                  <div className="px-4 pb-4">
+                    <ResponseDetails response={response} />
+                  </div>
+                </details>
               </div>
             </div>
           </div>
           <div className="p-8 border-t border-slate-50 space-y-3">
-            <button onClick={handleDownload} className="w-full bg-emerald-500 text-white py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-emerald-600 transition-all shadow-lg shadow-emerald-100 flex items-center justify-center gap-2">
+            <select value={presetId} onChange={e => setPresetId(e.target.value)} className="w-full bg-slate-50 border border-slate-100 rounded-2xl px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-600 focus:outline-none cursor-pointer">
+              {EXPORT_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}{p.id !== ORIGINAL_PRESET_ID ? ` @ ${p.dpi} DPI` : ''}</option>)}
+            </select>
+            <button onClick={handleDownload} disabled={isDownloading} className="w-full bg-emerald-500 text-white py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-emerald-600 transition-all shadow-lg shadow-emerald-100 flex items-center justify-center gap-2">
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4"/></svg>
-              SAVE AS PNG
+              {isDownloading ? 'RENDERING...' : 'SAVE AS PNG'}
             </button>
-            <button onClick={() => onSave(canvasRef.current!.toDataURL('image/png'), false)} className="w-full bg-slate-900 text-white py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-600 transition-all">Apply to this</button>
-            <button onClick={() => onSave(canvasRef.current!.toDataURL('image/png'), true)} className="w-full bg-indigo-50 text-indigo-600 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-100 transition-all border border-indigo-100">Apply to all</button>
+            <button onClick={() => onSaveLayers(layers, false)} disabled={!isLayersDirty} className="w-full bg-slate-900 text-white py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-600 transition-all disabled:bg-slate-300">Apply to this</button>
+            <button onClick={() => onSaveLayers(layers, true)} className="w-full bg-indigo-50 text-indigo-600 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-100 transition-all border border-indigo-100">Apply to whole batch</button>
           </div>
         </div>
       </div>
@@ -145,9 +471,12 @@ const EditModal: React.FC<{
   );
 };
 
-const Lightbox: React.FC<{ image: string; onClose: () => void }> = ({ image, onClose }) => (
+const Lightbox: React.FC<{ image: string; onClose: () => void; onMockup?: () => void }> = ({ image, onClose, onMockup }) => (
   <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/95 p-12 cursor-zoom-out animate-in fade-in" onClick={onClose}>
     <img src={image} className="max-w-full max-h-full object-contain shadow-2xl" />
+    {onMockup && (
+      <button onClick={e => { e.stopPropagation(); onMockup(); }} className="absolute bottom-8 left-1/2 -translate-x-1/2 bg-white text-slate-900 px-8 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-indigo-600 hover:text-white transition-all cursor-pointer">VIEW MOCKUP</button>
+    )}
   </div>
 );
 
@@ -155,12 +484,224 @@ const App: React.FC = () => {
   const [batches, setBatches] = useState<BatchItem[]>([]);
   const [isProcessingAll, setIsProcessingAll] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [shouldStopGlobal, setShouldStopGlobal] = useState(false);
   const [outputsPerBatch, setOutputsPerBatch] = useState(1);
-  const [zoomImage, setZoomImage] = useState<string | null>(null);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(DEFAULT_QUEUE_SETTINGS);
+  const [queue] = useState(() => createJobQueue(DEFAULT_QUEUE_SETTINGS));
+  const [queueStatus, setQueueStatus] = useState<QueueSnapshot>({ pending: 0, running: 0, paused: false });
+  const [exportKnockout, setExportKnockout] = useState<ExportKnockoutSettings>({ ...DEFAULT_KNOCKOUT_OPTIONS, enabled: false });
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportPresetId, setExportPresetId] = useState(ORIGINAL_PRESET_ID);
+  const [generationDefaults, setGenerationDefaults] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(BUILT_IN_TEMPLATES);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ sheetUrl: string; header: string[]; rows: string[][]; mapping: ColumnMapping } | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [historyBatchId, setHistoryBatchId] = useState<string | null>(null);
+  const [review, setReview] = useState<{ startBatchId?: string } | null>(null);
+  const [exportFavoritesOnly, setExportFavoritesOnly] = useState(false);
+  const [exportPostProcess, setExportPostProcess] = useState<ExportPostProcess>({ upscale: 0, vectorize: false });
+  const [showImportReport, setShowImportReport] = useState(false);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [usageBudget, setUsageBudget] = useState<UsageBudget>(DEFAULT_USAGE_BUDGET);
+  const [showUsage, setShowUsage] = useState(false);
+  const [researchBatchId, setResearchBatchId] = useState<string | null>(null);
+  const [researchSettings, setResearchSettings] = useState<ResearchSettings>(DEFAULT_RESEARCH_SETTINGS);
+  const [screeningSettings, setScreeningSettings] = useState<ScreeningSettings>(DEFAULT_SCREENING_SETTINGS);
+  const [showScreening, setShowScreening] = useState(false);
+  const [writingListings, setWritingListings] = useState<string[]>([]);
+  const [writeBackSettings, setWriteBackSettings] = useState<WriteBackSettings>(DEFAULT_WRITE_BACK_SETTINGS);
+  const [adjustmentPresets, setAdjustmentPresets] = useState<AdjustmentPreset[]>([]);
+  const [mockupSettings, setMockupSettings] = useState<MockupSettings>(DEFAULT_MOCKUP_SETTINGS);
+  const [mockupTarget, setMockupTarget] = useState<ResultRef | null>(null);
+  const [responseTarget, setResponseTarget] = useState<ResultRef | null>(null);
+  const [referenceMaxDimension, setReferenceMaxDimension] = useState(DEFAULT_REFERENCE_MAX_DIMENSION);
+  const [zoom, setZoom] = useState<{ image: string; result?: ResultRef } | null>(null);
   const [editTarget, setEditTarget] = useState<{ batchId: string; index: number; data: string; mode: 'normal' | 'pro' } | null>(null);
   const [hasProKey, setHasProKey] = useState(false);
-  const [sheetUrl, setSheetUrl] = useState('https://docs.google.com/spreadsheets/d/1Z6oK-BNw8qDNBO9fQ28XOD3eTJzQwdPL6HCePR9uC0U/edit?gid=224107427');
+  const [sheetUrl, setSheetUrl] = useState(DEFAULT_SHEET_URL);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [activeProject, setActiveProject] = useState<Omit<Project, 'batches' | 'sheetUrl'> | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const saveTimerRef = useRef<number | null>(null);
+  const editAbortRef = useRef<AbortController | null>(null);
+
+  const applyProject = (project: Project) => {
+    const { batches: savedBatches, sheetUrl: savedUrl, ...meta } = project;
+    clearReferenceCaches();
+    setActiveProject(meta);
+    setBatches(savedBatches);
+    setSheetUrl(savedUrl || DEFAULT_SHEET_URL);
+    setSetting('activeProjectId', project.id).catch(e => console.warn('Could not store active project', e));
+  };
+
+  const refreshProjects = async () => {
+    setProjects(await listProjects());
+  };
+
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const lastId = await getSetting<string>('activeProjectId');
+        let project = lastId ? await loadProject(lastId) : null;
+        if (!project) {
+          const summaries = await listProjects();
+          project = summaries.length > 0 ? await loadProject(summaries[0].id) : null;
+        }
+        if (!project) {
+          project = createProject('Project 1', DEFAULT_SHEET_URL);
+          await saveProject(project);
+        }
+        applyProject(project);
+        await refreshProjects();
+      } catch (e) {
+        console.warn('Could not restore projects from IndexedDB', e);
+      } finally {
+        setIsHydrated(true);
+      }
+    };
+    restore();
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated || !activeProject) return;
+    const snapshot: Project = { ...activeProject, sheetUrl, batches };
+    if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(() => {
+      saveTimerRef.current = null;
+      saveProject(snapshot).catch(e => console.warn('Could not save project', e));
+    }, AUTOSAVE_DELAY_MS);
+  }, [batches, sheetUrl, activeProject, isHydrated]);
+
+  useEffect(() => queue.subscribe(setQueueStatus), [queue]);
+
+  useEffect(() => {
+    getSetting<QueueSettings>('queueSettings')
+      .then(saved => { if (saved) setQueueSettings({ ...DEFAULT_QUEUE_SETTINGS, ...saved }); })
+      .catch(e => console.warn('Could not load queue settings', e));
+    getSetting<ExportKnockoutSettings>('exportKnockout')
+      .then(saved => { if (saved) setExportKnockout(prev => ({ ...prev, ...saved })); })
+      .catch(e => console.warn('Could not load export settings', e));
+    getSetting<GenerationSettings>('generationDefaults')
+      .then(saved => { if (saved) setGenerationDefaults({ ...DEFAULT_GENERATION_SETTINGS, ...saved }); })
+      .catch(e => console.warn('Could not load generation defaults', e));
+    getSetting<number>('referenceMaxDimension')
+      .then(saved => { if (saved !== undefined) setReferenceMaxDimension(saved); })
+      .catch(e => console.warn('Could not load reference size', e));
+    loadWriteBackSettings()
+      .then(setWriteBackSettings)
+      .catch(e => console.warn('Could not load write-back settings', e));
+    loadMockupSettings()
+      .then(setMockupSettings)
+      .catch(e => console.warn('Could not load mockup settings', e));
+    loadAdjustmentPresets()
+      .then(setAdjustmentPresets)
+      .catch(e => console.warn('Could not load adjustment presets', e));
+    loadTemplates()
+      .then(setTemplates)
+      .catch(e => console.warn('Could not load prompt templates', e));
+    getSetting<string>('exportPresetId')
+      .then(saved => { if (saved) setExportPresetId(saved); })
+      .catch(e => console.warn('Could not load export preset', e));
+    getSetting<boolean>('exportFavoritesOnly')
+      .then(saved => { if (saved !== undefined) setExportFavoritesOnly(saved); })
+      .catch(e => console.warn('Could not load export filter', e));
+    listUsageRecords()
+      .then(setUsageRecords)
+      .catch(e => console.warn('Could not load usage records', e));
+    loadUsageBudget()
+      .then(setUsageBudget)
+      .catch(e => console.warn('Could not load usage budget', e));
+    loadResearchSettings()
+      .then(setResearchSettings)
+      .catch(e => console.warn('Could not load research settings', e));
+    loadScreeningSettings()
+      .then(setScreeningSettings)
+      .catch(e => console.warn('Could not load screening settings', e));
+    getSetting<ExportPostProcess>('exportPostProcess')
+      .then(saved => { if (saved) setExportPostProcess(prev => ({ ...prev, ...saved })); })
+      .catch(e => console.warn('Could not load export post-process', e));
+  }, []);
+
+  const updateQueueSettings = (patch: Partial<QueueSettings>) => {
+    setQueueSettings(prev => {
+      const next = { ...prev, ...patch };
+      setSetting('queueSettings', next).catch(e => console.warn('Could not save queue settings', e));
+      return next;
+    });
+  };
+
+  useEffect(() => { queue.updateSettings(queueSettings); }, [queue, queueSettings]);
+
+  const flushSave = async () => {
+    if (!activeProject) return;
+    if (saveTimerRef.current) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    await saveProject({ ...activeProject, sheetUrl, batches });
+  };
+
+  const switchProject = async (id: string) => {
+    if (id === activeProject?.id) return;
+    try {
+      await flushSave();
+      const project = await loadProject(id);
+      if (project) applyProject(project);
+      await refreshProjects();
+    } catch (e: any) {
+      alert("Lỗi khi chuyển project: " + e.message);
+    }
+  };
+
+  const newProject = async () => {
+    const name = prompt('Tên project mới:', `Project ${projects.length + 1}`);
+    if (!name?.trim()) return;
+    try {
+      await flushSave();
+      const project = createProject(name.trim(), sheetUrl);
+      await saveProject(project);
+      applyProject(project);
+      await refreshProjects();
+    } catch (e: any) {
+      alert("Lỗi khi tạo project: " + e.message);
+    }
+  };
+
+  const renameProject = async () => {
+    if (!activeProject) return;
+    const name = prompt('Đổi tên project:', activeProject.name);
+    if (!name?.trim()) return;
+    const renamed = { ...activeProject, name: name.trim() };
+    setActiveProject(renamed);
+    try {
+      await saveProject({ ...renamed, sheetUrl, batches });
+      await refreshProjects();
+    } catch (e: any) {
+      alert("Lỗi khi đổi tên project: " + e.message);
+    }
+  };
+
+  const removeProject = async () => {
+    if (!activeProject) return;
+    if (!confirm(`Xóa project "${activeProject.name}" cùng toàn bộ kết quả đã tạo?`)) return;
+    if (saveTimerRef.current) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    try {
+      await deleteProject(activeProject.id);
+      const remaining = await listProjects();
+      let next = remaining.length > 0 ? await loadProject(remaining[0].id) : null;
+      if (!next) {
+        next = createProject('Project 1', DEFAULT_SHEET_URL);
+        await saveProject(next);
+      }
+      applyProject(next);
+      await refreshProjects();
+    } catch (e: any) {
+      alert("Lỗi khi xóa project: " + e.message);
+    }
+  };
 
   useEffect(() => {
     const checkKey = async () => {
@@ -179,102 +720,71 @@ const App: React.FC = () => {
     }
   };
 
-  const fetchAsBase64 = async (url: string): Promise<string> => {
-    if (!url || !url.startsWith('http')) return "";
+  const syncFromSheet = async () => {
+    setIsSyncing(true);
     try {
-      const response = await fetch(url);
-      if (!response.ok) throw new Error("Fetch failed");
-      const blob = await response.blob();
-      return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-      });
-    } catch (e) {
-      console.warn(`Could not fetch image from ${url}`, e);
-      return "";
-    }
-  };
+      const csvText = await fetchSheetCsv(sheetUrl);
+      const rows = parseCSV(csvText);
+      if (rows.length < 2 || rows.slice(1).every(isEmptyRow)) throw new Error("Sheet không có dòng dữ liệu nào.");
 
-  const parseCSV = (text: string) => {
-    const re = /(?!\s*$)\s*(?:'([^']*)'|"([^"]*)"|([^,]*))\s*(?:,|$)/g;
-    const rows: string[][] = [];
-    let currentLine: string[] = [];
-    let match;
-
-    const lines = text.split(/\r?\n/);
-    for (const line of lines) {
-      if (!line.trim()) continue;
-      currentLine = [];
-      re.lastIndex = 0; 
-      while ((match = re.exec(line)) !== null) {
-        let val = match[1] || match[2] || match[3] || "";
-        currentLine.push(val.trim());
-        if (match.index === re.lastIndex) re.lastIndex++;
-      }
-      rows.push(currentLine);
+      const header = rows[0];
+      const savedMapping = await loadColumnMapping(sheetUrl).catch(() => undefined);
+      setPendingImport({ sheetUrl, header, rows: rows.slice(1), mapping: savedMapping ?? guessColumnMapping(header) });
+    } catch (error: any) {
+      alert("Lỗi khi đồng bộ Sheet: " + error.message);
+    } finally {
+      setIsSyncing(false);
     }
-    return rows;
   };
 
-  const syncFromSheet = async () => {
-    if (!sheetUrl.includes('docs.google.com/spreadsheets')) {
-      alert("Vui lòng nhập URL Google Sheet hợp lệ.");
-      return;
-    }
-
+  // sourceUrl là URL lúc fetch, không phải ô URL hiện tại: người dùng có thể đổi URL khi modal mapping đang mở
+  const importRows = async (sourceUrl: string, header: string[], dataRows: string[][], mapping: ColumnMapping) => {
+    setPendingImport(null);
     setIsSyncing(true);
     try {
-      const sheetIdMatch = sheetUrl.match(/\/d\/([a-zA-Z0-9-_]+)/);
-      const gidMatch = sheetUrl.match(/gid=([0-9]+)/);
-      
-      if (!sheetIdMatch) throw new Error("Không tìm thấy Sheet ID trong URL.");
-      const sheetId = sheetIdMatch[1];
-      const gid = gidMatch ? gidMatch[1] : '0';
-
-      const csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv&gid=${gid}`;
-      const response = await fetch(csvUrl);
-      const csvText = await response.text();
-      
-      const rows = parseCSV(csvText);
-
-      const dataRows = rows.slice(1);
+      await saveColumnMapping(sourceUrl, mapping).catch(e => console.warn('Could not save column mapping', e));
       const newBatches: BatchItem[] = [];
+      const report: ImportReport = { totalRows: 0, imported: 0, skippedRows: [], failedImages: [], emptyPrompts: [], createdAt: Date.now() };
 
-      for (const row of dataRows) {
-        if (!row[0]) continue; 
+      for (const [i, row] of dataRows.entries()) {
+        // Dòng 1 là header
+        const rowNumber = i + 2;
+        if (isEmptyRow(row)) continue;
+        report.totalRows++;
 
-        const name = row[0];
-        const customPrompt = row[11] || row[1] || undefined;
-        
-        // P-T: indices 15, 16, 17, 18, 19
-        const colIndices = [15, 16, 17, 18, 19];
-        const imageFiles: (ImageFile | null)[] = [];
+        const mapped = mapRow(row, mapping);
+        if (!mapped.name) {
+          report.skippedRows.push({ row: rowNumber, reason: 'Thiếu tên (cột Name trống)' });
+          continue;
+        }
+        if (!mapped.prompt) {
+          report.emptyPrompts.push({ row: rowNumber, name: mapped.name, reason: 'Prompt trống — sẽ dùng template/prompt mặc định' });
+        }
 
-        for (const colIdx of colIndices) {
-          const url = row[colIdx];
-          if (url && url.startsWith('http')) {
-            const b64 = await fetchAsBase64(url);
-            if (b64) {
-              imageFiles.push({
-                id: Math.random().toString(36).substr(2, 9),
-                file: new File([], "source.png", { type: 'image/png' }),
-                preview: url,
-                base64: b64
-              });
-            } else {
-              imageFiles.push(null);
-            }
-          } else {
+        const imageFiles: (ImageFile | null)[] = [];
+        for (const [slot, url] of mapped.imageUrls.entries()) {
+          if (!url) {
+            imageFiles.push(null);
+            continue;
+          }
+          try {
+            imageFiles.push(await fetchReference(url));
+          } catch (e: any) {
+            console.warn(`Could not fetch image from ${url}`, e);
+            report.failedImages.push({ row: rowNumber, name: mapped.name, slot: slot + 1, url, reason: e?.message || 'Fetch failed' });
             imageFiles.push(null);
           }
         }
 
         newBatches.push({
           id: Math.random().toString(36).substr(2, 9),
-          name,
-          customPrompt,
+          name: mapped.name,
+          sourceRow: rowNumber,
+          sourceSheetUrl: sourceUrl,
+          customPrompt: mapped.prompt,
+          fields: buildRowFields(header, row),
+          tags: mapped.tags.length > 0 ? mapped.tags : undefined,
+          productType: mapped.productType,
           images: imageFiles,
           status: 'idle',
           resultsNormal: [],
@@ -282,7 +792,12 @@ const App: React.FC = () => {
         });
       }
 
+      report.imported = newBatches.length;
       setBatches(newBatches);
+      setImportReport(report);
+      if (report.skippedRows.length + report.failedImages.length + report.emptyPrompts.length > 0) {
+        setShowImportReport(true);
+      }
     } catch (error: any) {
       alert("Lỗi khi đồng bộ Sheet: " + error.message);
     } finally {
@@ -290,87 +805,547 @@ const App: React.FC = () => {
     }
   };
 
-  const processBatch = async (batchId: string, mode: 'normal' | 'pro') => {
-    const idx = batches.findIndex(b => b.id === batchId);
-    if (idx === -1) return;
+  const updateBatchImages = (batchId: string, update: (images: (ImageFile | null)[]) => (ImageFile | null)[]) => {
+    setBatches(p => p.map(b => b.id === batchId ? { ...b, images: update(b.images) } : b));
+  };
+
+  const addFilesToSlot = async (batchId: string, index: number, files: File[]) => {
+    try {
+      const incoming = await Promise.all(files.map(fileToImageFile));
+      updateBatchImages(batchId, images => placeInSlots(images, index, incoming));
+    } catch (e: any) {
+      alert("Lỗi khi thêm ảnh: " + e.message);
+    }
+  };
+
+  // Kéo trong cùng batch = đổi chỗ, kéo từ batch khác = sao chép
+  const dropOnSlot = (batchId: string, index: number, source: SlotDragData) => {
+    if (source.batchId === batchId) {
+      if (source.index !== index) updateBatchImages(batchId, images => swapSlots(images, source.index, index));
+      return;
+    }
+    const img = batches.find(b => b.id === source.batchId)?.images[source.index];
+    if (img) updateBatchImages(batchId, images => placeInSlots(images, index, [{ ...img, id: Math.random().toString(36).substr(2, 9) }]));
+  };
+
+  const sendListingsToSlots = async (batchId: string, listings: ResearchListing[], replace: boolean) => {
+    // Ảnh gốc có thể bị chặn/không tồn tại thì quay về thumbnail đã hiển thị
+    const outcomes = await Promise.allSettled(listings.map(l =>
+      fetchReference(fullSizeImageUrl(l.thumbnail)).catch(() => fetchReference(l.thumbnail))));
+    const incoming = outcomes
+      .filter((o): o is PromiseFulfilledResult<ImageFile> => o.status === 'fulfilled')
+      .map(o => o.value);
+    if (incoming.length > 0) {
+      updateBatchImages(batchId, images => replace ? placeInSlots([], 0, incoming) : fillEmptySlots(images, incoming));
+    }
+    const failed = outcomes.length - incoming.length;
+    if (failed > 0) alert(`Không tải được ${failed}/${outcomes.length} ảnh (có thể bị chặn CORS).`);
+  };
+
+  const updateResearchSettings = (patch: Partial<ResearchSettings>) => {
+    setResearchSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveResearchSettings(next).catch(e => console.warn('Could not save research settings', e));
+      return next;
+    });
+  };
+
+  const createManualBatch = () => {
+    const name = prompt('Tên batch mới:', 'New idea');
+    if (!name?.trim()) return;
+    setBatches(p => [...p, {
+      id: Math.random().toString(36).substr(2, 9),
+      name: name.trim(),
+      images: normalizeSlots([]),
+      status: 'idle',
+      resultsNormal: [],
+      resultsPro: []
+    }]);
+  };
+
+  const removeBatch = (batchId: string) => {
+    const batch = batches.find(b => b.id === batchId);
+    if (!batch || !confirm(`Xóa batch "${batch.name}"?`)) return;
+    queue.cancel(batchId);
+    setBatches(p => p.filter(b => b.id !== batchId));
+  };
+
+  const updateBatchPrompt = (batchId: string, value: string) => {
+    setBatches(p => p.map(b => b.id === batchId ? { ...b, customPrompt: value || undefined } : b));
+  };
+
+  const updateGenerationDefaults = (patch: Partial<GenerationSettings>) => {
+    setGenerationDefaults(prev => {
+      const next = { ...prev, ...patch };
+      setSetting('generationDefaults', next).catch(e => console.warn('Could not save generation defaults', e));
+      return next;
+    });
+  };
+
+  const updateTemplates = (next: PromptTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next).catch(e => console.warn('Could not save prompt templates', e));
+  };
+
+  const setBatchTemplate = (batchId: string | null, templateId: string | undefined) => {
+    setBatches(p => p.map(b => (batchId === null || b.id === batchId) ? { ...b, templateId } : b));
+  };
+
+  const templateVariables = Array.from(new Set([
+    'name',
+    'prompt',
+    ...batches.flatMap(b => Object.keys(b.fields ?? {})),
+  ]));
+
+  const resolveSettings = (batch?: BatchItem): GenerationSettings => withProviderModels({ ...generationDefaults, ...batch?.settings });
+
+  const updateBatchSettings = (batchId: string, patch: Partial<GenerationSettings> | null) => {
+    setBatches(p => p.map(b => b.id === batchId ? { ...b, settings: patch ? { ...b.settings, ...patch } : undefined } : b));
+  };
 
-    setBatches(p => p.map(b => b.id === batchId ? { ...b, status: 'processing', processingMode: mode, error: undefined } : b));
+  const budgetReached = isOverBudget(usageRecords, usageBudget, activeProject?.id);
 
+  // Chạm budget thì dừng nhận job mới; job đang chạy vẫn hoàn thành
+  useEffect(() => {
+    if (budgetReached && queueStatus.pending > 0 && !queueStatus.paused) queue.pause();
+  }, [budgetReached, queueStatus, queue]);
+
+  // Queue hỏi trước mỗi job: usageRecordsRef được cập nhật đồng bộ trong trackUsage nên chi phí của job
+  // vừa xong đã được tính trước khi phần giữ chỗ của nó được trả lại
+  const usageRecordsRef = useRef(usageRecords);
+  usageRecordsRef.current = usageRecords;
+  const admitJobRef = useRef<(reservedCost: number) => boolean>(() => true);
+  admitJobRef.current = reservedCost => canAfford(usageRecordsRef.current, usageBudget, activeProject?.id, reservedCost);
+  useEffect(() => queue.setAdmission(reservedCost => admitJobRef.current(reservedCost)), [queue]);
+
+  const updateUsageBudget = (patch: Partial<UsageBudget>) => {
+    setUsageBudget(prev => {
+      const next = { ...prev, ...patch };
+      saveUsageBudget(next).catch(e => console.warn('Could not save usage budget', e));
+      return next;
+    });
+  };
+
+  const clearUsage = () => {
+    clearUsageRecords()
+      .then(() => setUsageRecords([]))
+      .catch(e => console.warn('Could not clear usage records', e));
+  };
+
+  const trackUsage = (context: Pick<UsageRecord, 'batchId' | 'batchName' | 'kind'>) => (usage: GenerationUsage) => {
+    if (!activeProject) return;
+    const record = createUsageRecord({ ...context, projectId: activeProject.id }, usage);
+    usageRecordsRef.current = [...usageRecordsRef.current, record];
+    setUsageRecords(prev => [...prev, record]);
+    addUsageRecord(record).catch(e => console.warn('Could not record usage', e));
+  };
+
+  const alertBudgetReached = () => {
+    alert(`Đã chạm budget ${formatUsd(usageBudget.cap)} (${usageBudget.scope === 'day' ? 'hôm nay' : 'project này'}). Tăng budget trong USAGE để chạy tiếp.`);
+  };
+
+  const screeningFor = (batch: BatchItem) =>
+    screeningSettings.mode === 'off' ? null : screenBatch(batch, screeningSettings.terms, resolveBatchPrompt(batch, templates));
+
+  const blockedByScreening = (batch: BatchItem) => isBlocked(batch, screeningSettings, resolveBatchPrompt(batch, templates));
+
+  const updateScreeningSettings = (patch: Partial<ScreeningSettings>) => {
+    setScreeningSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveScreeningSettings(next).catch(e => console.warn('Could not save screening settings', e));
+      return next;
+    });
+  };
+
+  const updateListing = (batchId: string, mode: 'normal' | 'pro', slot: number, listing: ListingMetadata, versionId?: string | null) => {
+    setBatches(p => p.map(b => b.id === batchId ? setListing(b, mode, slot, listing, versionId) : b));
+  };
+
+  const writeListings = async (batch: BatchItem, targets = listingTargets(batch)) => {
+    if (targets.length === 0) return alert("Chưa có ảnh nào để viết listing (tất cả đã bị Reject).");
+    if (budgetReached) return alertBudgetReached();
+    setWritingListings(prev => [...prev, batch.id]);
+    const failures: string[] = [];
     try {
-      const batch = batches[idx];
-      const resUrls: string[] = [];
-      const isPro = mode === 'pro';
-
-      for (let i = 0; i < outputsPerBatch; i++) {
-        const currentBatch = batches.find(b => b.id === batchId);
-        if (shouldStopGlobal || (currentBatch && currentBatch.status === 'stopping')) break;
-        const b64 = await generatePodImage(batch.images, batch.customPrompt, undefined, isPro);
-        resUrls.push(b64);
-      }
-      
-      setBatches(p => p.map(b => b.id === batchId ? { ...b, status: 'completed', [isPro ? 'resultsPro' : 'resultsNormal']: resUrls } : b));
-    } catch (err: any) {
-      if (err.message.includes("PRO_KEY_REQUIRED")) {
-        handleConnectKey();
+      for (const { mode, slot } of targets) {
+        const image = batch[resultsKey(mode)][slot];
+        const versionId = getHeadId(batch, mode, slot);
+        try {
+          const listing = await generateListing({
+            image: await renderAdjustments(image, getAdjustments(batch, mode, slot)),
+            name: batch.name,
+            tags: batch.tags,
+            prompt: resolveBatchPrompt(batch, templates),
+            onUsage: trackUsage({ batchId: batch.id, batchName: batch.name, kind: 'listing' }),
+          });
+          updateListing(batch.id, mode, slot, listing, versionId);
+        } catch (e: any) {
+          failures.push(`${mode === 'pro' ? 'Pro' : 'Normal'} ${slot + 1}: ${e.message}`);
+        }
       }
-      setBatches(p => p.map(b => b.id === batchId ? { ...b, status: 'error', error: err.message } : b));
+    } finally {
+      setWritingListings(prev => prev.filter(id => id !== batch.id));
+    }
+    if (failures.length > 0) alert("Không viết được listing cho:\n" + failures.join('\n'));
+  };
+
+  // retryFailed: chỉ chạy lại các job lỗi của lần trước, giữ nguyên kết quả đã có
+  const processBatch = async (batchId: string, mode: 'normal' | 'pro', retryFailed = false) => {
+    const batch = batches.find(b => b.id === batchId);
+    if (!batch || batch.status === 'queued' || batch.status === 'processing' || batch.status === 'stopping') return;
+    const jobIndexes = retryFailed
+      ? (batch.jobs ?? []).flatMap((job, i) => job.state === 'failed' ? [i] : [])
+      : Array.from({ length: outputsPerBatch }, (_, i) => i);
+    if (jobIndexes.length === 0) return;
+    if (budgetReached) return alertBudgetReached();
+    const prompt = resolveBatchPrompt(batch, templates);
+    if (isBlocked(batch, screeningSettings, prompt)) {
+      const terms = screenBatch(batch, screeningSettings.terms, prompt).terms.join(', ');
+      setBatches(p => p.map(b => b.id === batchId ? { ...b, status: 'error', error: `Bị chặn bởi trademark screening: ${terms}` } : b));
+      return;
+    }
+
+    const isPro = mode === 'pro';
+    const key = isPro ? 'resultsPro' : 'resultsNormal';
+    const settings = resolveSettings(batch);
+
+    setBatches(p => p.map(b => b.id !== batchId ? b : retryFailed ? {
+      ...b,
+      status: 'queued',
+      error: undefined,
+      failure: undefined,
+      jobs: b.jobs?.map((job, i) => jobIndexes.includes(i) ? { state: 'queued' as JobState, attempt: 0 } : job),
+    } : {
+      ...b,
+      status: 'queued',
+      processingMode: mode,
+      error: undefined,
+      failure: undefined,
+      [key]: [],
+      heads: clearHeads(b, mode),
+      picks: clearPicks(b, mode),
+      adjustments: clearAdjustments(b, mode),
+      vectors: clearVectors(b, mode),
+      listings: clearListings(b, mode),
+      jobs: jobIndexes.map(() => ({ state: 'queued' as JobState, attempt: 0 })),
+    }));
+
+    const updateJob = (jobIndex: number, state: JobState, attempt: number) => {
+      setBatches(p => p.map(b => {
+        if (b.id !== batchId || !b.jobs) return b;
+        const status = state === 'running' && b.status === 'queued' ? 'processing' : b.status;
+        return { ...b, status, jobs: b.jobs.map((j, i) => i === jobIndex ? { state, attempt } : j) };
+      }));
+    };
+
+    const outcomes = await Promise.allSettled(jobIndexes.map(i =>
+      queue.add(batchId, async (signal) => {
+        const references = await prepareReferences(batch.images, referenceMaxDimension);
+        const { image, response } = await generatePodImage(references, prompt, undefined, isPro, {
+          signal,
+          settings,
+          onUsage: trackUsage({ batchId, batchName: batch.name, kind: 'generate' }),
+        });
+        const meta = {
+          kind: 'generate' as const,
+          prompt: prompt ?? '',
+          model: isPro ? settings.proModel : settings.normalModel,
+          references: describeReferences(batch.images),
+          response,
+        };
+        setBatches(p => p.map(b => b.id === batchId ? appendResult(b, mode, image, meta) : b));
+        return image;
+      }, (state, attempt) => updateJob(i, state, attempt), estimateJobCost(settings, isPro))
+    ));
+
+    // Mỗi job giữ lỗi và response của chính nó; failure của batch chỉ là lỗi đầu tiên để tóm tắt
+    const jobFailures = new Map<number, GenerationFailure>(outcomes.flatMap((o, k): [number, GenerationFailure][] =>
+      o.status === 'rejected' && !(o.reason instanceof JobCancelledError) ? [[jobIndexes[k], toGenerationFailure(o.reason)]] : []
+    ));
+    const failures = Array.from(jobFailures.values());
+    const wasCancelled = outcomes.some(o => o.status === 'rejected' && o.reason instanceof JobCancelledError);
+
+    const results = [
+      ...(retryFailed ? batch[key] : []),
+      ...outcomes
+        .filter((o): o is PromiseFulfilledResult<string> => o.status === 'fulfilled')
+        .map(o => o.value),
+    ];
+    const status: BatchItem['status'] = failures.length > 0 ? 'error' : (wasCancelled && results.length === 0 ? 'idle' : 'completed');
+    const failure = failures[0];
+    const error = failure?.message;
+
+    if (failures.some(f => f.kind === 'auth')) {
+      handleConnectKey();
+    }
+    setBatches(p => p.map(b => b.id === batchId ? {
+      ...b,
+      status,
+      error,
+      failure,
+      jobs: b.jobs?.map((job, i) => jobFailures.has(i) ? { ...job, failure: jobFailures.get(i) } : job),
+    } : b));
+
+    if (writeBackSettings.enabled && writeBackSettings.auto && status !== 'idle') {
+      writeBackBatch({ ...batch, status, error, failure, [key]: results });
     }
   };
 
+  const writeBackBatch = async (batch: BatchItem) => {
+    if (!canWriteBack(batch) || !writeBackSettings.endpoint) return;
+    try {
+      await postWriteBack(writeBackSettings.endpoint, buildWriteBackPayload(batch, writeBackSettings));
+      setBatches(p => p.map(b => b.id === batch.id ? { ...b, writeBack: { status: 'sent', at: Date.now() } } : b));
+    } catch (e: any) {
+      console.warn(`Write-back failed for row ${batch.sourceRow}`, e);
+      setBatches(p => p.map(b => b.id === batch.id ? { ...b, writeBack: { status: 'failed', at: Date.now(), error: e.message } } : b));
+    }
+  };
+
+  const writeBackAll = async () => {
+    for (const batch of batches) {
+      if (batch.status === 'completed' || batch.status === 'error') await writeBackBatch(batch);
+    }
+  };
+
+  const updateWriteBackSettings = (patch: Partial<WriteBackSettings>) => {
+    setWriteBackSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveWriteBackSettings(next).catch(e => console.warn('Could not save write-back settings', e));
+      return next;
+    });
+  };
+
+  // Batch đang queued/processing/stopping đã có job trong queue; completed thì chạy lại riêng từng batch
+  const isIdleOrFailed = (batch: BatchItem) => batch.status === 'idle' || batch.status === 'error';
+
   const processAll = async (mode: 'normal' | 'pro') => {
-    setIsProcessingAll(true);
-    setShouldStopGlobal(false);
-    for (const b of batches) {
-      if (shouldStopGlobal) break;
-      await processBatch(b.id, mode);
+    if (budgetReached) return alertBudgetReached();
+    const pending = batches.filter(isIdleOrFailed);
+    if (pending.length === 0) return alert("Không có batch nào đang chờ hoặc lỗi để chạy.");
+    const runnable = pending.filter(b => !blockedByScreening(b));
+    const flagged = pending.filter(b => (screeningFor(b)?.terms.length ?? 0) > 0).length;
+    const estimate = estimateRunCost(runnable.map(resolveSettings), mode === 'pro', outputsPerBatch);
+    const lines = [
+      `Sẽ tạo ${runnable.length * outputsPerBatch} ảnh (${runnable.length} batch × ${outputsPerBatch}).`,
+      `Chi phí ước tính: ~${formatUsd(estimate)}.`,
+    ];
+    if (flagged > 0) {
+      lines.push(screeningSettings.mode === 'block'
+        ? `${flagged} batch chứa từ trong blocklist sẽ bị bỏ qua.`
+        : `Cảnh báo: ${flagged} batch chứa từ trong blocklist trademark.`);
+    }
+    if (usageBudget.cap > 0) {
+      const remaining = Math.max(0, usageBudget.cap - spentInScope(usageRecords, usageBudget, activeProject?.id));
+      lines.push(`Budget còn lại: ${formatUsd(remaining)}${estimate > remaining ? ' (queue sẽ tự PAUSE khi chạm budget)' : ''}.`);
     }
+    if (!confirm(`${lines.join('\n')}\n\nBắt đầu chạy?`)) return;
+    setIsProcessingAll(true);
+    queue.resume();
+    await Promise.all(pending.map(b => processBatch(b.id, mode)));
+    setIsProcessingAll(false);
+  };
+
+  const canRetryFailed = (batch: BatchItem) =>
+    batch.status === 'error' && !!batch.processingMode && !!batch.jobs?.some(job => job.state === 'failed');
+
+  const retryAllFailed = async () => {
+    if (budgetReached) return alertBudgetReached();
+    const failed = batches.filter(canRetryFailed);
+    setIsProcessingAll(true);
+    queue.resume();
+    await Promise.all(failed.map(b => processBatch(b.id, b.processingMode!, true)));
     setIsProcessingAll(false);
   };
 
+  const stopBatch = (batchId: string) => {
+    setBatches(p => p.map(b => b.id === batchId ? { ...b, status: 'stopping' } : b));
+    queue.cancel(batchId);
+  };
+
+  const stopAll = () => {
+    setBatches(p => p.map(b => (b.status === 'queued' || b.status === 'processing') ? { ...b, status: 'stopping' } : b));
+    queue.cancel();
+    queue.resume();
+  };
+
+  const updateExportKnockout = (patch: Partial<ExportKnockoutSettings>) => {
+    setExportKnockout(prev => {
+      const next = { ...prev, ...patch };
+      setSetting('exportKnockout', next).catch(e => console.warn('Could not save export settings', e));
+      return next;
+    });
+  };
+
+  const updateExportPreset = (id: string) => {
+    setExportPresetId(id);
+    setSetting('exportPresetId', id).catch(e => console.warn('Could not save export preset', e));
+  };
+
+  const updateExportFavoritesOnly = (value: boolean) => {
+    setExportFavoritesOnly(value);
+    setSetting('exportFavoritesOnly', value).catch(e => console.warn('Could not save export filter', e));
+  };
+
+  const updateExportPostProcess = (patch: Partial<ExportPostProcess>) => {
+    setExportPostProcess(prev => {
+      const next = { ...prev, ...patch };
+      setSetting('exportPostProcess', next).catch(e => console.warn('Could not save export post-process', e));
+      return next;
+    });
+  };
+
+  const prepareForExport = async (res: string, layers: readonly AdjustmentLayer[]) => {
+    const adjusted = await renderAdjustments(res, layers);
+    const upscaled = exportPostProcess.upscale > 0 ? (await upscaleImage(adjusted, exportPostProcess.upscale)).image : adjusted;
+    const knocked = exportKnockout.enabled ? await knockoutBlack(upscaled, exportKnockout) : upscaled;
+    return exportPresetId === ORIGINAL_PRESET_ID ? knocked : applyExportPreset(knocked, getExportPreset(exportPresetId));
+  };
+
+  const addMockupsToZip = async (folder: JSZip, baseName: string, res: string, layers: readonly AdjustmentLayer[]) => {
+    const design = await prepareMockupDesign(await renderAdjustments(res, layers), mockupSettings.knockout);
+    for (const id of mockupSettings.exportTemplates) {
+      const template = getMockupTemplate(id);
+      const out = await renderMockup(design, template, mockupSettings);
+      folder.file(`${baseName} - ${template.label}.png`, out.split(',')[1], { base64: true });
+    }
+  };
+
+  // SVG đã lưu khi chỉnh từng ảnh được ưu tiên; bật Vectorize thì trace luôn ảnh export còn lại
+  const exportVector = async (batch: BatchItem, mode: 'normal' | 'pro', slot: number, out: string) =>
+    getVector(batch, mode, slot)?.svg ?? (exportPostProcess.vectorize ? vectorizeImage(out) : null);
+
   const downloadProject = async () => {
-    const zip = new JSZip();
-    for (const batch of batches) {
-      if (batch.resultsNormal.length === 0 && batch.resultsPro.length === 0) continue;
-      const folder = zip.folder(batch.name);
-      if (!folder) continue;
-      
-      const normalFolder = folder.folder("Normal");
-      batch.resultsNormal.forEach((res, i) => {
-        normalFolder?.file(`${batch.name} Normal ${i + 1}.png`, res.split(',')[1], { base64: true });
-      });
-
-      const proFolder = folder.folder("Pro");
-      batch.resultsPro.forEach((res, i) => {
-        proFolder?.file(`${batch.name} Pro ${i + 1}.png`, res.split(',')[1], { base64: true });
-      });
+    if (exportFavoritesOnly && !batches.some(b => countPicks(b).favorites > 0)) {
+      alert("Chưa có kết quả nào được đánh dấu Favorite.");
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const zip = new JSZip();
+      const listings: ListingExportEntry[] = [];
+      const addListing = (batch: BatchItem, mode: 'normal' | 'pro', slot: number) => {
+        const listing = getListing(batch, mode, slot);
+        if (listing) listings.push({ fileName: resultFileName(batch.name, mode, slot), listing });
+      };
+      for (const batch of batches) {
+        if (batch.resultsNormal.length === 0 && batch.resultsPro.length === 0) continue;
+        if (exportFavoritesOnly && countPicks(batch).favorites === 0) continue;
+        // Block mode chặn cả export: batch dính blocklist chỉ xuất hiện trong Screening Report
+        if (blockedByScreening(batch)) continue;
+        const folder = zip.folder(batch.name);
+        if (!folder) continue;
+        const mockupFolder = mockupSettings.exportTemplates.length > 0 ? folder.folder("Mockups") : null;
+
+        const normalFolder = folder.folder("Normal");
+        for (const [i, res] of batch.resultsNormal.entries()) {
+          if (exportFavoritesOnly && !isFavorite(batch, 'normal', i)) continue;
+          const out = await prepareForExport(res, getAdjustments(batch, 'normal', i));
+          normalFolder?.file(`${batch.name} Normal ${i + 1}.png`, out.split(',')[1], { base64: true });
+          const svg = await exportVector(batch, 'normal', i, out);
+          if (svg) normalFolder?.file(`${batch.name} Normal ${i + 1}.svg`, svg);
+          addListing(batch, 'normal', i);
+          if (mockupFolder) await addMockupsToZip(mockupFolder, `${batch.name} Normal ${i + 1}`, res, getAdjustments(batch, 'normal', i));
+        }
+
+        const proFolder = folder.folder("Pro");
+        for (const [i, res] of batch.resultsPro.entries()) {
+          if (exportFavoritesOnly && !isFavorite(batch, 'pro', i)) continue;
+          const out = await prepareForExport(res, getAdjustments(batch, 'pro', i));
+          proFolder?.file(`${batch.name} Pro ${i + 1}.png`, out.split(',')[1], { base64: true });
+          const svg = await exportVector(batch, 'pro', i, out);
+          if (svg) proFolder?.file(`${batch.name} Pro ${i + 1}.svg`, svg);
+          addListing(batch, 'pro', i);
+          if (mockupFolder) await addMockupsToZip(mockupFolder, `${batch.name} Pro ${i + 1}`, res, getAdjustments(batch, 'pro', i));
+        }
+      }
+      if (listings.length > 0) {
+        zip.file("Listings.csv", buildListingsCsv(listings));
+        zip.file("Listings.json", buildListingsJson(listings));
+      }
+      if (screeningSettings.mode !== 'off') {
+        zip.file("Screening Report.csv", buildScreeningReport(batches, screeningSettings, templates));
+      }
+      const content = await zip.generateAsync({ type: 'blob' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(content);
+      link.download = `POD-Project-${new Date().getTime()}.zip`;
+      link.click();
+    } catch (e: any) {
+      alert("Lỗi khi xuất ZIP: " + e.message);
+    } finally {
+      setIsExporting(false);
     }
-    const content = await zip.generateAsync({ type: 'blob' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(content);
-    link.download = `POD-Project-${new Date().getTime()}.zip`;
-    link.click();
   };
 
-  const onEditRegenerate = async (prompt: string, currentImage: string) => {
-    if (!editTarget) return;
+  const onEditRegenerate = async (prompt: string, currentImage: string, mask?: string): Promise<GenerationFailure | null> => {
+    if (!editTarget) return null;
+    editAbortRef.current?.abort();
+    const controller = new AbortController();
+    editAbortRef.current = controller;
     try {
       const isPro = editTarget.mode === 'pro';
-      const newB64 = await generatePodImage([], prompt, currentImage, isPro);
+      const settings = resolveSettings(batches.find(b => b.id === editTarget.batchId));
+      const inpaint = mask ? await prepareInpaint(currentImage, mask) : null;
+      const batchName = batches.find(b => b.id === editTarget.batchId)?.name;
+      const onUsage = trackUsage({ batchId: editTarget.batchId, batchName, kind: inpaint ? 'inpaint' : 'edit' });
+      let newB64: string;
+      let response: ResponseMetadata | undefined;
+      if (mask && inpaint) {
+        const patch = await generatePodImage([], prompt, inpaint.crop, isPro, {
+          signal: controller.signal,
+          settings: { ...settings, aspectRatio: inpaint.aspectRatio },
+          mask: inpaint.mask,
+          onUsage,
+        });
+        newB64 = await compositeInpaint(currentImage, patch.image, mask, inpaint.region);
+        response = patch.response;
+      } else {
+        ({ image: newB64, response } = await generatePodImage([], prompt, currentImage, isPro, { signal: controller.signal, settings, onUsage }));
+      }
+      const meta = { kind: inpaint ? 'inpaint' as const : 'edit' as const, prompt, model: isPro ? settings.proModel : settings.normalModel, references: [], response };
       setEditTarget(prev => prev ? { ...prev, data: newB64 } : null);
-      setBatches(p => p.map(b => {
-        if (b.id === editTarget.batchId) {
-          const key = isPro ? 'resultsPro' : 'resultsNormal';
-          return { ...b, [key]: b[key].map((r, i) => (i === editTarget.index) ? newB64 : r) };
-        }
-        return b;
-      }));
-    } catch (e) { alert("Error: " + e); }
+      setBatches(p => p.map(b => b.id === editTarget.batchId ? setSlotImage(b, editTarget.mode, editTarget.index, newB64, meta) : b));
+      return null;
+    } catch (e) {
+      if (isAbortError(e)) return null;
+      const failure = toGenerationFailure(e);
+      if (failure.kind === 'auth') handleConnectKey();
+      return failure;
+    } finally {
+      if (editAbortRef.current === controller) editAbortRef.current = null;
+    }
+  };
+
+  const closeEditModal = () => {
+    editAbortRef.current?.abort();
+    setEditTarget(null);
   };
 
   const openAmazonSearch = (keyword: string) => {
     window.open(`https://www.amazon.com/s?k=${encodeURIComponent(keyword)}`, '_blank');
   };
 
+  const updateMockupSettings = (patch: Partial<MockupSettings>) => {
+    setMockupSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveMockupSettings(next).catch(e => console.warn('Could not save mockup settings', e));
+      return next;
+    });
+  };
+
+  const updateAdjustmentPresets = (presets: AdjustmentPreset[]) => {
+    setAdjustmentPresets(presets);
+    saveAdjustmentPresets(presets).catch(e => console.warn('Could not save adjustment presets', e));
+  };
+
+  const editBatch = editTarget ? batches.find(b => b.id === editTarget.batchId) : undefined;
+  const mockupBatch = mockupTarget ? batches.find(b => b.id === mockupTarget.batchId) : undefined;
+  const responseBatch = responseTarget ? batches.find(b => b.id === responseTarget.batchId) : undefined;
+  const historyBatch = historyBatchId ? batches.find(b => b.id === historyBatchId) : undefined;
+  const researchBatch = researchBatchId ? batches.find(b => b.id === researchBatchId) : undefined;
+  const flaggedBatchCount = batches.filter(b => (screeningFor(b)?.terms.length ?? 0) > 0).length;
+
   return (
     <div className="min-h-screen bg-[#F8FAFC] pb-20 font-sans">
       <div className="max-w-[1900px] mx-auto px-6 pt-10">
@@ -386,22 +1361,87 @@ const App: React.FC = () => {
                   <div className={`px-2.5 py-1 rounded-full text-[9px] font-black uppercase tracking-wider ${hasProKey ? 'bg-emerald-100 text-emerald-600' : 'bg-amber-100 text-amber-600'}`}>
                     {hasProKey ? '● PRO ENGINE READY' : '○ CONNECT PRO KEY'}
                   </div>
+                  {generationDefaults.provider !== DEFAULT_GENERATION_SETTINGS.provider && (
+                    <div className="px-2.5 py-1 rounded-full text-[9px] font-black uppercase tracking-wider bg-slate-100 text-slate-500">{getImageProvider(generationDefaults.provider).label}</div>
+                  )}
                 </div>
               </div>
             </div>
 
             <div className="flex flex-wrap items-center gap-3">
+              <button onClick={createManualBatch} className="bg-white border border-slate-200 text-slate-900 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 transition-all">+ Batch</button>
+              <button onClick={() => setShowTemplates(true)} className="bg-white border border-slate-200 text-slate-900 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 transition-all">Templates</button>
+              <ProjectSwitcher
+                projects={projects}
+                activeId={activeProject?.id ?? null}
+                disabled={!isHydrated || isProcessingAll || isSyncing}
+                onSelect={switchProject}
+                onCreate={newProject}
+                onRename={renameProject}
+                onDelete={removeProject}
+              />
               <div className="flex items-center gap-3 bg-slate-50 px-4 py-2.5 rounded-2xl border border-slate-200">
                 <span className="text-[10px] font-black uppercase text-slate-400">Qty:</span>
                 <select value={outputsPerBatch} onChange={e => setOutputsPerBatch(Number(e.target.value))} className="bg-transparent text-sm font-black text-indigo-600 focus:outline-none cursor-pointer">
                   {[1,2,3,4,5,10].map(v => <option key={v} value={v}>{v}</option>)}
                 </select>
               </div>
-              <button onClick={() => { setShouldStopGlobal(true); setIsProcessingAll(false); }} className="bg-red-50 text-red-500 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-red-500 hover:text-white transition-all">STOP</button>
-              <button disabled={batches.length === 0} onClick={downloadProject} className="bg-white border border-slate-200 text-slate-900 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 transition-all flex items-center gap-2">Export ZIP</button>
+              <div className="flex items-center gap-3 bg-slate-50 px-4 py-2.5 rounded-2xl border border-slate-200">
+                <span className="text-[10px] font-black uppercase text-slate-400">Parallel:</span>
+                <select value={queueSettings.concurrency} onChange={e => updateQueueSettings({ concurrency: Number(e.target.value) })} className="bg-transparent text-sm font-black text-indigo-600 focus:outline-none cursor-pointer">
+                  {[1,2,3,4,5,8].map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+                <span className="text-[10px] font-black uppercase text-slate-400">RPM:</span>
+                <input type="number" min={0} value={queueSettings.requestsPerMinute} onChange={e => updateQueueSettings({ requestsPerMinute: Math.max(0, Number(e.target.value) || 0) })} title="0 = không giới hạn" className="w-14 bg-transparent text-sm font-black text-indigo-600 focus:outline-none" />
+              </div>
+              {(queueStatus.running > 0 || queueStatus.pending > 0 || queueStatus.paused) && (
+                <button onClick={() => queueStatus.paused ? queue.resume() : queue.pause()} className="bg-amber-50 text-amber-600 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-amber-500 hover:text-white transition-all">
+                  {queueStatus.paused ? `RESUME (${queueStatus.pending})` : `PAUSE (${queueStatus.running}/${queueStatus.pending})`}
+                </button>
+              )}
+              <button onClick={stopAll} className="bg-red-50 text-red-500 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-red-500 hover:text-white transition-all">STOP</button>
+              <label className="flex items-center gap-2 bg-slate-50 px-4 py-2.5 rounded-2xl border border-slate-200 cursor-pointer">
+                <input type="checkbox" checked={exportKnockout.enabled} onChange={e => updateExportKnockout({ enabled: e.target.checked })} className="accent-indigo-600" />
+                <span className="text-[10px] font-black uppercase text-slate-400">Knockout BG</span>
+                <input type="number" min={0} max={128} value={exportKnockout.tolerance} disabled={!exportKnockout.enabled} onChange={e => updateExportKnockout({ tolerance: Math.max(0, Number(e.target.value) || 0) })} title="Tolerance" className="w-12 bg-transparent text-sm font-black text-indigo-600 focus:outline-none disabled:opacity-40" />
+              </label>
+              <div className="flex items-center gap-3 bg-slate-50 px-4 py-2.5 rounded-2xl border border-slate-200">
+                <span className="text-[10px] font-black uppercase text-slate-400">Preset:</span>
+                <select value={exportPresetId} onChange={e => updateExportPreset(e.target.value)} className="bg-transparent text-sm font-black text-indigo-600 focus:outline-none cursor-pointer max-w-[160px]">
+                  {EXPORT_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+              </div>
+              <div className="flex items-center gap-3 bg-slate-50 px-4 py-2.5 rounded-2xl border border-slate-200">
+                <span className="text-[10px] font-black uppercase text-slate-400">Upscale:</span>
+                <select value={exportPostProcess.upscale} onChange={e => updateExportPostProcess({ upscale: Number(e.target.value) })} className="bg-transparent text-sm font-black text-indigo-600 focus:outline-none cursor-pointer">
+                  <option value={0}>Off</option>
+                  {UPSCALE_FACTORS.map(f => <option key={f} value={f}>×{f}</option>)}
+                </select>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={exportPostProcess.vectorize} onChange={e => updateExportPostProcess({ vectorize: e.target.checked })} className="accent-indigo-600" />
+                  <span className="text-[10px] font-black uppercase text-slate-400">SVG</span>
+                </label>
+              </div>
+              <label className="flex items-center gap-2 bg-slate-50 px-4 py-2.5 rounded-2xl border border-slate-200 cursor-pointer">
+                <input type="checkbox" checked={exportFavoritesOnly} onChange={e => updateExportFavoritesOnly(e.target.checked)} className="accent-amber-500" />
+                <span className="text-[10px] font-black uppercase text-slate-400">Favorites only</span>
+              </label>
+              <button onClick={() => setShowScreening(true)} className="bg-white border border-slate-200 text-slate-900 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 transition-all">
+                TM SCREEN{screeningSettings.mode === 'off' ? ' · OFF' : flaggedBatchCount > 0 ? ` (⚠${flaggedBatchCount})` : ''}
+              </button>
+              <button onClick={() => setShowUsage(true)} className={`px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest transition-all ${budgetReached ? 'bg-red-500 text-white' : 'bg-white border border-slate-200 text-slate-900 hover:bg-slate-50'}`} title="Chi phí hôm nay">
+                {budgetReached ? 'BUDGET REACHED' : `USAGE ${formatUsd(usageRecords.filter(r => dayKey(r.createdAt) === dayKey(Date.now())).reduce((sum, r) => sum + r.cost, 0))}`}
+              </button>
+              <button disabled={batches.length === 0} onClick={() => setReview({})} className="bg-amber-50 text-amber-600 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-amber-500 hover:text-white transition-all">REVIEW</button>
+              <button disabled={batches.length === 0 || isExporting} onClick={downloadProject} className="bg-white border border-slate-200 text-slate-900 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 transition-all flex items-center gap-2">{isExporting ? 'Exporting...' : 'Export ZIP'}</button>
+              {batches.some(canRetryFailed) && (
+                <button disabled={isProcessingAll} onClick={retryAllFailed} className="bg-red-50 text-red-500 px-6 py-3.5 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-red-500 hover:text-white transition-all">
+                  RETRY FAILED ({batches.filter(canRetryFailed).reduce((sum, b) => sum + (b.jobs?.filter(job => job.state === 'failed').length ?? 0), 0)})
+                </button>
+              )}
               <div className="flex gap-2">
                 <button disabled={isProcessingAll || batches.length === 0} onClick={() => processAll('normal')} className="bg-slate-900 text-white px-7 py-3.5 rounded-2xl font-black text-[11px] uppercase tracking-widest hover:bg-slate-800 transition-all shadow-xl shadow-slate-100">RUN NORMAL</button>
-                <button disabled={isProcessingAll || batches.length === 0} onClick={() => processAll('pro')} className="bg-indigo-600 text-white px-7 py-3.5 rounded-2xl font-black text-[11px] uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-100">RUN PRO 2K</button>
+                <button disabled={isProcessingAll || batches.length === 0} onClick={() => processAll('pro')} className="bg-indigo-600 text-white px-7 py-3.5 rounded-2xl font-black text-[11px] uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-100">RUN PRO {generationDefaults.imageSize}</button>
               </div>
             </div>
           </div>
@@ -429,16 +1469,50 @@ const App: React.FC = () => {
                    </div>
                 </div>
              </div>
-             <div className="flex-shrink-0 flex items-end">
-                <a href="https://docs.google.com/spreadsheets/d/1Z6oK-BNw8qDNBO9fQ28XOD3eTJzQwdPL6HCePR9uC0U/edit?gid=224107427" target="_blank" rel="noreferrer" className="text-[10px] font-black text-indigo-600 uppercase mb-4 hover:underline">Xem mẫu cấu trúc Sheet ↗</a>
+             <div className="flex-shrink-0 flex flex-col items-end justify-end gap-2">
+                {importReport && (
+                  <button onClick={() => setShowImportReport(true)} className="text-[10px] font-black text-amber-600 uppercase hover:underline">
+                    Import report ({importReport.skippedRows.length + importReport.failedImages.length + importReport.emptyPrompts.length} issues)
+                  </button>
+                )}
+                <a href={DEFAULT_SHEET_URL} target="_blank" rel="noreferrer" className="text-[10px] font-black text-indigo-600 uppercase mb-4 hover:underline">Xem mẫu cấu trúc Sheet ↗</a>
              </div>
           </div>
+
+          <WriteBackPanel
+            settings={writeBackSettings}
+            onChange={updateWriteBackSettings}
+            onWriteBackAll={writeBackAll}
+            canWriteBack={batches.some(b => canWriteBack(b) && (b.status === 'completed' || b.status === 'error'))}
+          />
+
+          <div className="flex flex-col md:flex-row md:items-center gap-4 px-5">
+             <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest shrink-0">Generation Defaults</label>
+             <GenerationSettingsFields value={generationDefaults} onChange={updateGenerationDefaults} disabled={isProcessingAll} />
+             <label className="flex flex-col gap-1 min-w-[120px]">
+               <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">Ref Max Size</span>
+               <select
+                 value={referenceMaxDimension}
+                 onChange={e => {
+                   const value = Number(e.target.value);
+                   setReferenceMaxDimension(value);
+                   setSetting('referenceMaxDimension', value).catch(err => console.warn('Could not save reference size', err));
+                 }}
+                 className="bg-white border border-slate-200 rounded-xl px-2 py-1.5 text-[10px] font-black text-indigo-600 focus:outline-none cursor-pointer"
+               >
+                 {REFERENCE_MAX_DIMENSIONS.map(v => <option key={v} value={v}>{v === 0 ? 'Original' : `${v}px`}</option>)}
+               </select>
+             </label>
+          </div>
         </div>
 
         {/* BATCH LIST */}
         <div className="space-y-6">
           {batches.map((batch, index) => (
             <div key={batch.id} className="bg-white rounded-[40px] border border-slate-100 relative shadow-sm hover:border-indigo-200 transition-all hover:shadow-2xl hover:shadow-indigo-50/20 group/card overflow-hidden">
+              <button onClick={() => removeBatch(batch.id)} title="Remove batch" className="absolute top-4 right-4 z-10 w-8 h-8 rounded-full bg-white border border-slate-100 text-slate-300 hover:text-red-500 hover:border-red-100 opacity-0 group-hover/card:opacity-100 transition-all flex items-center justify-center">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+              </button>
               <div className="flex flex-col lg:flex-row min-h-[400px]">
                 
                 {/* SIDEBAR */}
@@ -456,24 +1530,113 @@ const App: React.FC = () => {
                         </button>
                         <div className="flex flex-wrap gap-1.5">
                            <span className="text-[8px] font-black bg-white border border-slate-200 text-slate-500 px-2 py-1 rounded-lg uppercase">{batch.images.filter(img => !!img).length} REF</span>
+                           {batch.writeBack && (
+                             <span title={batch.writeBack.error} className={`text-[8px] font-black px-2 py-1 rounded-lg uppercase ${batch.writeBack.status === 'sent' ? 'bg-emerald-50 text-emerald-600' : 'bg-red-50 text-red-500'}`}>
+                               {batch.writeBack.status === 'sent' ? 'Sheet ✓' : 'Sheet ✗'}
+                             </span>
+                           )}
+                           {batch.productType && <span className="text-[8px] font-black bg-white border border-slate-200 text-slate-500 px-2 py-1 rounded-lg uppercase">{batch.productType}</span>}
                            <span className={`text-[8px] font-black px-2 py-1 rounded-lg uppercase ${batch.status === 'completed' ? 'bg-emerald-100 text-emerald-600' : 'bg-indigo-50 text-indigo-600'}`}>{batch.status}</span>
+                           {screeningFor(batch)?.terms.map(term => (
+                             <span key={term} title="Trùng blocklist trademark" className={`text-[8px] font-black px-2 py-1 rounded-lg uppercase ${screeningSettings.mode === 'block' ? 'bg-red-500 text-white' : 'bg-amber-100 text-amber-700'}`}>⚠ {term}</span>
+                           ))}
                         </div>
+                        {batch.jobs && batch.status !== 'idle' && <JobProgressBar jobs={batch.jobs} />}
                       </div>
                     </div>
-                    {batch.customPrompt && (
-                      <div className="bg-white/80 p-3.5 rounded-2xl border border-slate-100 italic text-[11px] text-slate-500 line-clamp-3">
-                        "{batch.customPrompt}"
+                    {batch.status === 'error' && (batch.failure || batch.error) && (
+                      <GenerationErrorNotice
+                        failure={batch.failure ?? { kind: 'unknown', message: batch.error! }}
+                        jobFailures={batch.jobs?.flatMap((job, i) => job.state === 'failed' && job.failure ? [{ job: i, failure: job.failure }] : [])}
+                        onConnectKey={handleConnectKey}
+                        onRetry={canRetryFailed(batch) ? () => processBatch(batch.id, batch.processingMode!, true) : undefined}
+                      />
+                    )}
+                    <textarea
+                      value={batch.customPrompt ?? ''}
+                      onChange={e => updateBatchPrompt(batch.id, e.target.value)}
+                      placeholder="Custom prompt (trống = prompt mặc định)"
+                      rows={3}
+                      className="w-full bg-white/80 p-3.5 rounded-2xl border border-slate-100 italic text-[11px] text-slate-500 resize-y outline-none focus:ring-2 focus:ring-indigo-100 custom-scrollbar"
+                    />
+                    {batch.tags && (
+                      <div className="flex flex-wrap gap-1">
+                        {batch.tags.map(tag => <span key={tag} className="text-[8px] font-bold bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded-md">#{tag}</span>)}
                       </div>
                     )}
+                    <label className="flex flex-col gap-1">
+                      <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 ml-1">Prompt Template</span>
+                      <select
+                        value={batch.templateId ?? ''}
+                        onChange={e => setBatchTemplate(batch.id, e.target.value || undefined)}
+                        className="bg-white border border-slate-200 rounded-xl px-2 py-1.5 text-[10px] font-black text-indigo-600 focus:outline-none cursor-pointer"
+                      >
+                        <option value="">Sheet prompt</option>
+                        {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                      </select>
+                    </label>
+                    <details className="bg-white/80 rounded-2xl border border-slate-100">
+                      <summary className="px-3.5 py-2.5 text-[9px] font-black uppercase tracking-widest text-slate-400 cursor-pointer flex justify-between">
+                        <span>Settings</span>
+                        <span className={batch.settings ? 'text-indigo-600' : ''}>{batch.settings ? 'Custom' : 'Default'} · {resolveSettings(batch).aspectRatio}</span>
+                      </summary>
+                      <div className="px-3.5 pb-3.5 space-y-2">
+                        <GenerationSettingsFields
+                          compact
+                          value={resolveSettings(batch)}
+                          onChange={patch => updateBatchSettings(batch.id, patch)}
+                          disabled={batch.status === 'queued' || batch.status === 'processing'}
+                        />
+                        {batch.settings && (
+                          <button onClick={() => updateBatchSettings(batch.id, null)} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600">Reset to defaults</button>
+                        )}
+                      </div>
+                    </details>
+                    {countListings(batch) > 0 && (
+                      <details className="bg-white/80 rounded-2xl border border-slate-100">
+                        <summary className="px-3.5 py-2.5 text-[9px] font-black uppercase tracking-widest text-slate-400 cursor-pointer flex justify-between">
+                          <span>Listings</span>
+                          <span className="text-emerald-600">{countListings(batch)}</span>
+                        </summary>
+                        <div className="px-3.5 pb-3.5 space-y-3 max-h-[600px] overflow-y-auto custom-scrollbar">
+                          {(['normal', 'pro'] as const).flatMap(mode => batch[resultsKey(mode)].map((res, slot) => {
+                            const listing = getListing(batch, mode, slot);
+                            return listing && (
+                              <ListingEditor
+                                key={`${mode}:${slot}`}
+                                label={`${mode === 'pro' ? 'Pro' : 'Normal'} ${slot + 1}`}
+                                thumbnail={res}
+                                listing={listing}
+                                onChange={next => updateListing(batch.id, mode, slot, next)}
+                                onRegenerate={writingListings.includes(batch.id) ? undefined : () => writeListings(batch, [{ mode, slot }])}
+                              />
+                            );
+                          }))}
+                        </div>
+                      </details>
+                    )}
                   </div>
 
                   <div className="mt-8 space-y-2">
-                    {batch.status === 'processing' ? (
-                       <button onClick={() => setBatches(p => p.map(b => b.id === batch.id ? {...b, status: 'stopping'} : b))} className="w-full bg-red-50 text-red-500 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-red-500 hover:text-white transition-all">STOP BATCH</button>
+                    {batch.status === 'queued' || batch.status === 'processing' || batch.status === 'stopping' ? (
+                       <button onClick={() => stopBatch(batch.id)} disabled={batch.status === 'stopping'} className="w-full bg-red-50 text-red-500 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-red-500 hover:text-white transition-all">{batch.status === 'stopping' ? 'STOPPING...' : 'STOP BATCH'}</button>
                     ) : (
                        <div className="grid grid-cols-1 gap-2">
                          <button onClick={() => processBatch(batch.id, 'normal')} className="w-full bg-slate-900 text-white py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-800 transition-all">GENERATE NORMAL</button>
-                         <button onClick={() => processBatch(batch.id, 'pro')} className="w-full bg-indigo-600 text-white py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-indigo-700 transition-all">GENERATE PRO 2K</button>
+                         <button onClick={() => processBatch(batch.id, 'pro')} className="w-full bg-indigo-600 text-white py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-indigo-700 transition-all">GENERATE PRO {resolveSettings(batch).imageSize}</button>
+                         {writeBackSettings.enabled && canWriteBack(batch) && (batch.status === 'completed' || batch.status === 'error') && (
+                           <button onClick={() => writeBackBatch(batch)} className="w-full bg-white border border-slate-200 text-slate-500 py-3 rounded-2xl font-black text-[9px] uppercase tracking-widest hover:text-indigo-600 hover:border-indigo-200 transition-all">WRITE BACK ROW {batch.sourceRow}</button>
+                         )}
+                         {(batch.resultsNormal.length > 0 || batch.resultsPro.length > 0) && (
+                           <button onClick={() => setReview({ startBatchId: batch.id })} className="w-full bg-white border border-slate-200 text-slate-500 py-3 rounded-2xl font-black text-[9px] uppercase tracking-widest hover:text-amber-600 hover:border-amber-200 transition-all">REVIEW{countPicks(batch).favorites > 0 ? ` (★${countPicks(batch).favorites})` : ''}</button>
+                         )}
+                         {(batch.resultsNormal.length > 0 || batch.resultsPro.length > 0) && (
+                           <button onClick={() => writeListings(batch)} disabled={writingListings.includes(batch.id)} className="w-full bg-white border border-slate-200 text-slate-500 py-3 rounded-2xl font-black text-[9px] uppercase tracking-widest hover:text-emerald-600 hover:border-emerald-200 transition-all disabled:opacity-50">{writingListings.includes(batch.id) ? 'WRITING LISTINGS...' : `WRITE LISTINGS (${listingTargets(batch).length})`}</button>
+                         )}
+                         <button onClick={() => setResearchBatchId(batch.id)} className="w-full bg-white border border-slate-200 text-slate-500 py-3 rounded-2xl font-black text-[9px] uppercase tracking-widest hover:text-indigo-600 hover:border-indigo-200 transition-all">RESEARCH</button>
+                         {(batch.versions?.length ?? 0) > 0 && (
+                           <button onClick={() => setHistoryBatchId(batch.id)} className="w-full bg-white border border-slate-200 text-slate-500 py-3 rounded-2xl font-black text-[9px] uppercase tracking-widest hover:text-indigo-600 hover:border-indigo-200 transition-all">HISTORY ({batch.versions?.length})</button>
+                         )}
                        </div>
                     )}
                   </div>
@@ -486,20 +1649,19 @@ const App: React.FC = () => {
                   <div className="flex flex-col gap-4 shrink-0">
                     <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 pb-2">INPUT REFERENCES (5 SLOTS)</label>
                     <div className="flex flex-row gap-3">
-                      {[0, 1, 2, 3, 4].map((idx) => {
-                        const img = batch.images[idx];
-                        return (
-                          <div key={idx} className="w-44 h-60 rounded-[32px] border-2 border-slate-50 shadow-sm overflow-hidden bg-slate-50 relative group shrink-0">
-                            {img ? (
-                              <img src={img.preview} onClick={() => setZoomImage(img.preview)} className="w-full h-full object-cover cursor-zoom-in" alt={`Ref ${idx + 1}`} />
-                            ) : (
-                              <div className="w-full h-full flex flex-col items-center justify-center text-slate-200 gap-2 border-2 border-dashed border-slate-100 rounded-[32px]">
-                                <span className="text-[8px] font-black uppercase tracking-widest opacity-40">Slot {idx + 1} Empty</span>
-                              </div>
-                            )}
-                          </div>
-                        );
-                      })}
+                      {[0, 1, 2, 3, 4].map((idx) => (
+                        <ReferenceSlot
+                          key={idx}
+                          batchId={batch.id}
+                          index={idx}
+                          image={batch.images[idx] ?? null}
+                          disabled={batch.status === 'queued' || batch.status === 'processing'}
+                          onFiles={files => addFilesToSlot(batch.id, idx, files)}
+                          onSlotDrop={source => dropOnSlot(batch.id, idx, source)}
+                          onRemove={() => updateBatchImages(batch.id, images => clearSlot(images, idx))}
+                          onZoom={image => setZoom({ image })}
+                        />
+                      ))}
                     </div>
                   </div>
 
@@ -512,14 +1674,20 @@ const App: React.FC = () => {
                        <div className="w-[300px] h-[400px] rounded-[40px] bg-slate-50 border border-slate-200 overflow-hidden relative group shrink-0 shadow-inner flex flex-col gap-2 p-2">
                           {batch.resultsNormal.length > 0 ? (
                             <div className="w-full h-full rounded-[32px] bg-checkered overflow-hidden relative cursor-pointer group" onClick={() => setEditTarget({ batchId: batch.id, index: 0, data: batch.resultsNormal[0], mode: 'normal' })}>
-                               <img src={batch.resultsNormal[0]} className="w-full h-full object-contain relative z-10" />
+                               <AdjustedImage src={batch.resultsNormal[0]} layers={getAdjustments(batch, 'normal', 0)} className="w-full h-full object-contain relative z-10" />
+                               <PickBadge pick={getPick(batch, 'normal', 0)} />
+                               <ResultTileActions
+                                 onZoom={() => setZoom({ image: batch.resultsNormal[0], result: { batchId: batch.id, mode: 'normal', slot: 0 } })}
+                                 onMockup={() => setMockupTarget({ batchId: batch.id, mode: 'normal', slot: 0 })}
+                                 onInfo={() => setResponseTarget({ batchId: batch.id, mode: 'normal', slot: 0 })}
+                               />
                                <div className="absolute inset-0 bg-slate-900/40 opacity-0 group-hover:opacity-100 transition-opacity z-20 flex items-center justify-center text-white backdrop-blur-[2px]">
                                   <span className="text-[10px] font-black uppercase tracking-widest">REFINE NORMAL</span>
                                </div>
                             </div>
                           ) : (
                             <div className="w-full h-full flex flex-col items-center justify-center text-slate-200">
-                               {batch.status === 'processing' && batch.processingMode === 'normal' ? (
+                               {(batch.status === 'queued' || batch.status === 'processing') && batch.processingMode === 'normal' ? (
                                  <div className="w-12 h-12 border-4 border-slate-200 border-t-slate-500 rounded-full animate-spin" />
                                ) : (
                                  <div className="text-center opacity-30">
@@ -530,8 +1698,14 @@ const App: React.FC = () => {
                           )}
                        </div>
                        {batch.resultsNormal.slice(1).map((res, i) => (
-                         <div key={i} className="w-[300px] h-[400px] rounded-[40px] bg-checkered border border-slate-100 overflow-hidden relative cursor-pointer shadow-sm shrink-0" onClick={() => setEditTarget({ batchId: batch.id, index: i+1, data: res, mode: 'normal' })}>
-                           <img src={res} className="w-full h-full object-contain" />
+                         <div key={i} className="w-[300px] h-[400px] rounded-[40px] bg-checkered border border-slate-100 overflow-hidden relative cursor-pointer shadow-sm shrink-0 group" onClick={() => setEditTarget({ batchId: batch.id, index: i+1, data: res, mode: 'normal' })}>
+                           <AdjustedImage src={res} layers={getAdjustments(batch, 'normal', i + 1)} className="w-full h-full object-contain" />
+                           <PickBadge pick={getPick(batch, 'normal', i + 1)} />
+                           <ResultTileActions
+                             onZoom={() => setZoom({ image: res, result: { batchId: batch.id, mode: 'normal', slot: i + 1 } })}
+                             onMockup={() => setMockupTarget({ batchId: batch.id, mode: 'normal', slot: i + 1 })}
+                             onInfo={() => setResponseTarget({ batchId: batch.id, mode: 'normal', slot: i + 1 })}
+                           />
                          </div>
                        ))}
                     </div>
@@ -539,19 +1713,25 @@ const App: React.FC = () => {
 
                   {/* OUTPUT AREA (PRO) */}
                   <div className="flex flex-col gap-4 shrink-0">
-                    <label className="text-[10px] font-black text-indigo-400 uppercase tracking-widest border-b border-indigo-100 pb-2">PRO OUTPUT 2K</label>
+                    <label className="text-[10px] font-black text-indigo-400 uppercase tracking-widest border-b border-indigo-100 pb-2">PRO OUTPUT {resolveSettings(batch).imageSize}</label>
                     <div className="flex flex-row gap-3">
                        <div className="w-[300px] h-[400px] rounded-[40px] bg-indigo-50/40 border border-indigo-100 overflow-hidden relative group shrink-0 shadow-inner flex flex-col gap-2 p-2">
                           {batch.resultsPro.length > 0 ? (
                             <div className="w-full h-full rounded-[32px] bg-checkered overflow-hidden relative cursor-pointer group" onClick={() => setEditTarget({ batchId: batch.id, index: 0, data: batch.resultsPro[0], mode: 'pro' })}>
-                               <img src={batch.resultsPro[0]} className="w-full h-full object-contain relative z-10" />
+                               <AdjustedImage src={batch.resultsPro[0]} layers={getAdjustments(batch, 'pro', 0)} className="w-full h-full object-contain relative z-10" />
+                               <PickBadge pick={getPick(batch, 'pro', 0)} />
+                               <ResultTileActions
+                                 onZoom={() => setZoom({ image: batch.resultsPro[0], result: { batchId: batch.id, mode: 'pro', slot: 0 } })}
+                                 onMockup={() => setMockupTarget({ batchId: batch.id, mode: 'pro', slot: 0 })}
+                                 onInfo={() => setResponseTarget({ batchId: batch.id, mode: 'pro', slot: 0 })}
+                               />
                                <div className="absolute inset-0 bg-indigo-900/40 opacity-0 group-hover:opacity-100 transition-opacity z-20 flex items-center justify-center text-white backdrop-blur-[2px]">
                                   <span className="text-[10px] font-black uppercase tracking-widest">REFINE PRO</span>
                                </div>
                             </div>
                           ) : (
                             <div className="w-full h-full flex flex-col items-center justify-center text-indigo-100">
-                               {batch.status === 'processing' && batch.processingMode === 'pro' ? (
+                               {(batch.status === 'queued' || batch.status === 'processing') && batch.processingMode === 'pro' ? (
                                  <div className="w-12 h-12 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin" />
                                ) : (
                                  <div className="text-center opacity-30">
@@ -562,8 +1742,14 @@ const App: React.FC = () => {
                           )}
                        </div>
                        {batch.resultsPro.slice(1).map((res, i) => (
-                         <div key={i} className="w-[300px] h-[400px] rounded-[40px] bg-checkered border border-indigo-50 overflow-hidden relative cursor-pointer shadow-sm shrink-0" onClick={() => setEditTarget({ batchId: batch.id, index: i+1, data: res, mode: 'pro' })}>
-                           <img src={res} className="w-full h-full object-contain" />
+                         <div key={i} className="w-[300px] h-[400px] rounded-[40px] bg-checkered border border-indigo-50 overflow-hidden relative cursor-pointer shadow-sm shrink-0 group" onClick={() => setEditTarget({ batchId: batch.id, index: i+1, data: res, mode: 'pro' })}>
+                           <AdjustedImage src={res} layers={getAdjustments(batch, 'pro', i + 1)} className="w-full h-full object-contain" />
+                           <PickBadge pick={getPick(batch, 'pro', i + 1)} />
+                           <ResultTileActions
+                             onZoom={() => setZoom({ image: res, result: { batchId: batch.id, mode: 'pro', slot: i + 1 } })}
+                             onMockup={() => setMockupTarget({ batchId: batch.id, mode: 'pro', slot: i + 1 })}
+                             onInfo={() => setResponseTarget({ batchId: batch.id, mode: 'pro', slot: i + 1 })}
+                           />
                          </div>
                        ))}
                     </div>
@@ -582,6 +1768,7 @@ const App: React.FC = () => {
                <h2 className="text-2xl font-black text-slate-900 uppercase tracking-tighter mb-3">Google Sheets Sync Ready</h2>
                <p className="text-slate-400 max-w-md mx-auto text-sm font-medium">Kết nối link Google Sheet chứa danh sách ý tưởng và hình ảnh tham khảo để bắt đầu quy trình tạo thiết kế tự động.</p>
                <button onClick={syncFromSheet} className="mt-8 bg-indigo-600 text-white px-10 py-5 rounded-3xl font-black text-[12px] uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-2xl shadow-indigo-100">Sync Now</button>
+               <button onClick={createManualBatch} className="mt-4 text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600">Hoặc tạo batch thủ công</button>
             </div>
           )}
 
@@ -599,22 +1786,122 @@ const App: React.FC = () => {
         <EditModal 
           image={editTarget.data} 
           batchName={batches.find(b => b.id === editTarget.batchId)?.name || 'design'}
-          onClose={() => setEditTarget(null)} 
-          onSave={(newB64, applyToAll) => {
-            const isPro = editTarget.mode === 'pro';
-            const key = isPro ? 'resultsPro' : 'resultsNormal';
+          onClose={closeEditModal}
+          savedLayers={editBatch ? getAdjustments(editBatch, editTarget.mode, editTarget.index) : []}
+          vector={editBatch ? getVector(editBatch, editTarget.mode, editTarget.index) : undefined}
+          response={editBatch ? getResponseVersion(editBatch, editTarget.mode, editTarget.index)?.response : undefined}
+          presets={adjustmentPresets}
+          onPresetsChange={updateAdjustmentPresets}
+          onSave={(newB64, kind) => {
+            const meta = { kind: kind ?? 'adjust', prompt: '', model: '', references: [] };
+            setBatches(p => p.map(b => b.id === editTarget.batchId ? setSlotImage(b, editTarget.mode, editTarget.index, newB64, meta) : b));
+            setEditTarget(prev => prev ? { ...prev, data: newB64 } : null);
+          }}
+          onSaveLayers={(layers, applyToBatch) => {
             setBatches(p => p.map(b => {
-              if (b.id === editTarget.batchId) {
-                return { ...b, [key]: b[key].map((r, i) => (i === editTarget.index || applyToAll) ? newB64 : r) };
-              }
-              return b;
+              if (b.id !== editTarget.batchId) return b;
+              return applyToBatch ? applyAdjustmentsToBatch(b, layers) : setAdjustments(b, editTarget.mode, editTarget.index, layers);
             }));
-            if (!applyToAll) setEditTarget(prev => prev ? { ...prev, data: newB64 } : null);
           }}
+          onSaveVector={(svg, colors) => setBatches(p => p.map(b => b.id === editTarget.batchId ? setVector(b, editTarget.mode, editTarget.index, svg, colors) : b))}
           onRegenerate={onEditRegenerate}
         />
       )}
-      {zoomImage && <Lightbox image={zoomImage} onClose={() => setZoomImage(null)} />}
+      {pendingImport && (
+        <ColumnMappingModal
+          header={pendingImport.header}
+          rows={pendingImport.rows}
+          initialMapping={pendingImport.mapping}
+          onConfirm={mapping => importRows(pendingImport.sheetUrl, pendingImport.header, pendingImport.rows, mapping)}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {researchBatch && (
+        <ResearchPanel
+          batch={researchBatch}
+          settings={researchSettings}
+          onSettingsChange={updateResearchSettings}
+          onSendToSlots={(listings, replace) => sendListingsToSlots(researchBatch.id, listings, replace)}
+          onOpenAmazon={openAmazonSearch}
+          onClose={() => setResearchBatchId(null)}
+        />
+      )}
+      {showScreening && (
+        <BlocklistManager
+          settings={screeningSettings}
+          flaggedCount={flaggedBatchCount}
+          onChange={updateScreeningSettings}
+          onClose={() => setShowScreening(false)}
+        />
+      )}
+      {showUsage && (
+        <UsageDashboard
+          records={usageRecords}
+          projects={projects}
+          activeProjectId={activeProject?.id}
+          budget={usageBudget}
+          onBudgetChange={updateUsageBudget}
+          onClear={clearUsage}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+      {review && (
+        <ReviewModal
+          batches={batches}
+          startBatchId={review.startBatchId}
+          onUpdateBatch={(batchId, update) => setBatches(p => p.map(b => b.id === batchId ? update(b) : b))}
+          onClose={() => setReview(null)}
+        />
+      )}
+
+      {historyBatch && (
+        <HistoryModal
+          batch={historyBatch}
+          onRestore={versionId => setBatches(p => p.map(b => b.id === historyBatch.id ? restoreVersion(b, versionId) : b))}
+          onBranch={versionId => setBatches(p => p.map(b => b.id === historyBatch.id ? branchVersion(b, versionId) : b))}
+          onClose={() => setHistoryBatchId(null)}
+        />
+      )}
+
+      {showImportReport && importReport && (
+        <ImportReportModal report={importReport} onClose={() => setShowImportReport(false)} />
+      )}
+      {showTemplates && (
+        <PromptTemplateManager
+          templates={templates}
+          availableVariables={templateVariables}
+          sampleVariables={batches[0] ? buildTemplateVariables(batches[0]) : null}
+          onChange={updateTemplates}
+          onApplyToAll={templateId => setBatchTemplate(null, templateId)}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+      {zoom && (
+        <Lightbox
+          image={zoom.image}
+          onClose={() => setZoom(null)}
+          onMockup={zoom.result ? () => { setMockupTarget(zoom.result!); setZoom(null); } : undefined}
+        />
+      )}
+
+      {mockupBatch && mockupTarget && (
+        <MockupModal
+          image={mockupBatch[resultsKey(mockupTarget.mode)][mockupTarget.slot]}
+          layers={getAdjustments(mockupBatch, mockupTarget.mode, mockupTarget.slot)}
+          fileName={`${mockupBatch.name} ${mockupTarget.mode === 'pro' ? 'Pro' : 'Normal'} ${mockupTarget.slot + 1}`}
+          settings={mockupSettings}
+          onSettingsChange={updateMockupSettings}
+          onClose={() => setMockupTarget(null)}
+        />
+      )}
+
+      {responseBatch && responseTarget && (
+        <ResponseDrawer
+          title={`${responseBatch.name} ${responseTarget.mode === 'pro' ? 'Pro' : 'Normal'} ${responseTarget.slot + 1}`}
+          version={getResponseVersion(responseBatch, responseTarget.mode, responseTarget.slot)}
+          onClose={() => setResponseTarget(null)}
+        />
+      )}
 
       <style>{`
         .bg-checkered { background-color: #ffffff; background-image: linear-gradient(45deg, #F8FAFC 25%, transparent 25%), linear-gradient(-45deg, #F8FAFC 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #F8FAFC 75%), linear-gradient(-45deg, transparent 75%, #F8FAFC 75%); background-size: 20px 20px; background-position: 0 0, 0 10px, 10px -10px, -10px 0px; }
@@ -0,0 +1,23 @@
+import React, { useEffect, useState } from 'react';
+import { AdjustmentLayer } from '../types';
+import { hasActiveLayers, renderAdjustments } from '../services/adjustmentService';
+
+// Thumbnail chỉ cần độ phân giải thấp nên render stack trên bản thu nhỏ
+const THUMBNAIL_MAX_DIMENSION = 800;
+
+const AdjustedImage: React.FC<{ src: string; layers: readonly AdjustmentLayer[]; className?: string }> = ({ src, layers, className }) => {
+  const [rendered, setRendered] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!hasActiveLayers(layers)) return setRendered(null);
+    let cancelled = false;
+    renderAdjustments(src, layers, THUMBNAIL_MAX_DIMENSION)
+      .then(out => { if (!cancelled) setRendered(out); })
+      .catch(e => console.warn('Could not render adjustments', e));
+    return () => { cancelled = true; };
+  }, [src, layers]);
+
+  return <img src={rendered ?? src} className={className} />;
+};
+
+export default AdjustedImage;
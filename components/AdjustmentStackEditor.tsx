@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { AdjustmentLayer, AdjustmentLayerType } from '../types';
+import { createLayer, LAYER_LABELS } from '../services/adjustmentService';
+
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  suffix?: string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step = 1, suffix = '', onChange }) => (
+  <div className="space-y-1.5">
+    <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>{label}</span><span>{value}{suffix}</span></div>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(Number(e.target.value))} className="w-full accent-indigo-600 h-1 bg-slate-200 rounded-full appearance-none" />
+  </div>
+);
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (value: boolean) => void }> = ({ label, checked, onChange }) => (
+  <button onClick={() => onChange(!checked)} className={`flex-1 py-2 rounded-lg text-[9px] font-black uppercase transition-all ${checked ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 hover:bg-slate-100'}`}>{label}</button>
+);
+
+const LayerControls: React.FC<{ layer: AdjustmentLayer; onChange: (patch: Partial<AdjustmentLayer>) => void }> = ({ layer, onChange }) => {
+  switch (layer.type) {
+    case 'crop':
+      return (
+        <>
+          <Slider label="Left" value={layer.left} min={0} max={49} suffix="%" onChange={left => onChange({ left })} />
+          <Slider label="Right" value={layer.right} min={0} max={49} suffix="%" onChange={right => onChange({ right })} />
+          <Slider label="Top" value={layer.top} min={0} max={49} suffix="%" onChange={top => onChange({ top })} />
+          <Slider label="Bottom" value={layer.bottom} min={0} max={49} suffix="%" onChange={bottom => onChange({ bottom })} />
+        </>
+      );
+    case 'flip':
+      return (
+        <div className="flex gap-1">
+          <Toggle label="Horizontal" checked={layer.horizontal} onChange={horizontal => onChange({ horizontal })} />
+          <Toggle label="Vertical" checked={layer.vertical} onChange={vertical => onChange({ vertical })} />
+        </div>
+      );
+    case 'rotate':
+      return (
+        <>
+          <Slider label="Angle" value={layer.angle} min={-180} max={180} suffix="°" onChange={angle => onChange({ angle })} />
+          <div className="flex gap-1">
+            {[-90, 90, 180].map(step => (
+              <button key={step} onClick={() => onChange({ angle: ((layer.angle + step + 540) % 360) - 180 })} className="flex-1 py-2 rounded-lg text-[9px] font-black uppercase bg-white text-slate-500 hover:bg-slate-100">{step > 0 ? `+${step}` : step}°</button>
+            ))}
+          </div>
+        </>
+      );
+    case 'brightnessContrast':
+      return (
+        <>
+          <Slider label="Brightness" value={layer.brightness} min={0} max={200} suffix="%" onChange={brightness => onChange({ brightness })} />
+          <Slider label="Contrast" value={layer.contrast} min={0} max={200} suffix="%" onChange={contrast => onChange({ contrast })} />
+        </>
+      );
+    case 'hueSaturation':
+      return (
+        <>
+          <Slider label="Hue" value={layer.hue} min={-180} max={180} suffix="°" onChange={hue => onChange({ hue })} />
+          <Slider label="Saturation" value={layer.saturation} min={-100} max={100} onChange={saturation => onChange({ saturation })} />
+          <Slider label="Lightness" value={layer.lightness} min={-100} max={100} onChange={lightness => onChange({ lightness })} />
+        </>
+      );
+    case 'levels':
+      return (
+        <>
+          <Slider label="Input Black" value={layer.inputBlack} min={0} max={254} onChange={inputBlack => onChange({ inputBlack: Math.min(inputBlack, layer.inputWhite - 1) })} />
+          <Slider label="Input White" value={layer.inputWhite} min={1} max={255} onChange={inputWhite => onChange({ inputWhite: Math.max(inputWhite, layer.inputBlack + 1) })} />
+          <Slider label="Gamma (Curve)" value={layer.gamma} min={0.1} max={3} step={0.05} onChange={gamma => onChange({ gamma })} />
+          <Slider label="Output Black" value={layer.outputBlack} min={0} max={255} onChange={outputBlack => onChange({ outputBlack })} />
+          <Slider label="Output White" value={layer.outputWhite} min={0} max={255} onChange={outputWhite => onChange({ outputWhite })} />
+        </>
+      );
+    case 'sharpen':
+      return <Slider label="Amount" value={layer.amount} min={0} max={200} suffix="%" onChange={amount => onChange({ amount })} />;
+    case 'blackPoint':
+      return <Slider label="Threshold" value={layer.threshold} min={0} max={128} onChange={threshold => onChange({ threshold })} />;
+  }
+};
+
+const AdjustmentStackEditor: React.FC<{
+  layers: AdjustmentLayer[];
+  onChange: (layers: AdjustmentLayer[]) => void;
+}> = ({ layers, onChange }) => {
+  const [newType, setNewType] = useState<AdjustmentLayerType>('crop');
+
+  const updateLayer = (id: string, patch: Partial<AdjustmentLayer>) =>
+    onChange(layers.map(l => l.id === id ? { ...l, ...patch } as AdjustmentLayer : l));
+
+  const moveLayer = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {layers.length === 0 && <p className="text-[10px] font-bold text-slate-300">Chưa có layer nào, ảnh gốc được giữ nguyên.</p>}
+      {layers.map((layer, index) => (
+        <div key={layer.id} className={`bg-slate-50 p-3 rounded-2xl space-y-3 ${layer.enabled ? '' : 'opacity-50'}`}>
+          <div className="flex items-center gap-1">
+            <input type="checkbox" checked={layer.enabled} onChange={e => updateLayer(layer.id, { enabled: e.target.checked })} className="accent-indigo-600" />
+            <span className="flex-1 text-[10px] font-black uppercase text-slate-600 ml-1">{LAYER_LABELS[layer.type]}</span>
+            <button onClick={() => moveLayer(index, -1)} disabled={index === 0} className="px-1.5 text-slate-400 hover:text-slate-900 disabled:opacity-30">↑</button>
+            <button onClick={() => moveLayer(index, 1)} disabled={index === layers.length - 1} className="px-1.5 text-slate-400 hover:text-slate-900 disabled:opacity-30">↓</button>
+            <button onClick={() => onChange(layers.filter(l => l.id !== layer.id))} className="px-1.5 text-slate-400 hover:text-red-500">✕</button>
+          </div>
+          {layer.enabled && <LayerControls layer={layer} onChange={patch => updateLayer(layer.id, patch)} />}
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <select value={newType} onChange={e => setNewType(e.target.value as AdjustmentLayerType)} className="flex-1 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-[10px] font-black uppercase text-slate-600 outline-none">
+          {(Object.keys(LAYER_LABELS) as AdjustmentLayerType[]).map(type => <option key={type} value={type}>{LAYER_LABELS[type]}</option>)}
+        </select>
+        <button onClick={() => onChange([...layers, createLayer(newType)])} className="bg-slate-900 text-white px-4 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-600 transition-all">Add</button>
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentStackEditor;
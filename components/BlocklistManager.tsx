@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ScreeningSettings } from '../types';
+import { DEFAULT_BLOCKLIST, mergeBlocklists, parseBlocklist, parseBlocklistCsv } from '../services/screeningService';
+
+const MODES: { id: ScreeningSettings['mode']; label: string; hint: string }[] = [
+  { id: 'off', label: 'Off', hint: 'Không kiểm tra.' },
+  { id: 'flag', label: 'Flag', hint: 'Hiện cảnh báo trên batch, vẫn cho generate.' },
+  { id: 'block', label: 'Block', hint: 'Batch có từ bị chặn sẽ không được generate.' },
+];
+
+const BlocklistManager: React.FC<{
+  settings: ScreeningSettings;
+  flaggedCount: number;
+  onChange: (patch: Partial<ScreeningSettings>) => void;
+  onClose: () => void;
+}> = ({ settings, flaggedCount, onChange, onClose }) => {
+  const [draft, setDraft] = useState(settings.terms.join('\n'));
+  const isDirty = draft !== settings.terms.join('\n');
+
+  const importFile = async (file: File) => {
+    try {
+      const text = await file.text();
+      const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+      const merged = mergeBlocklists(parseBlocklist(draft), isCsv ? parseBlocklistCsv(text) : parseBlocklist(text));
+      setDraft(merged.join('\n'));
+    } catch (e: any) {
+      alert("Lỗi khi đọc file: " + e.message);
+    }
+  };
+
+  const save = () => {
+    const terms = parseBlocklist(draft);
+    onChange({ terms });
+    setDraft(terms.join('\n'));
+  };
+
+  const exportList = () => {
+    const link = document.createElement('a');
+    link.download = 'trademark-blocklist.txt';
+    link.href = URL.createObjectURL(new Blob([settings.terms.join('\n')], { type: 'text/plain' }));
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-[32px] w-full max-w-2xl overflow-hidden shadow-2xl flex flex-col max-h-[85vh]">
+        <div className="p-8 flex justify-between items-center border-b border-slate-50">
+          <div>
+            <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">Trademark Screening</h3>
+            <p className="text-[11px] font-medium text-slate-400">{settings.terms.length} từ · {flaggedCount} batch đang khớp</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+        <div className="p-8 space-y-6 overflow-y-auto custom-scrollbar">
+          <div className="space-y-3">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Mode</label>
+            <div className="grid grid-cols-3 gap-1">
+              {MODES.map(m => (
+                <button key={m.id} onClick={() => onChange({ mode: m.id })} className={`py-2.5 rounded-xl text-[9px] font-black uppercase transition-all ${settings.mode === m.id ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>{m.label}</button>
+              ))}
+            </div>
+            <p className="text-[10px] font-bold text-slate-400">{MODES.find(m => m.id === settings.mode)?.hint} Kiểm tra tên batch và prompt đã áp template.</p>
+          </div>
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Blocklist (mỗi dòng một từ)</label>
+              <div className="flex gap-3">
+                <label className="text-[9px] font-black uppercase tracking-widest text-indigo-500 hover:underline cursor-pointer">
+                  Import
+                  <input type="file" accept=".txt,.csv,text/plain,text/csv" className="hidden" onChange={e => { const file = e.target.files?.[0]; if (file) importFile(file); e.target.value = ''; }} />
+                </label>
+                <button onClick={exportList} className="text-[9px] font-black uppercase tracking-widest text-indigo-500 hover:underline">Export</button>
+                <button onClick={() => confirm('Khôi phục blocklist mặc định?') && setDraft(DEFAULT_BLOCKLIST.join('\n'))} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500">Reset</button>
+              </div>
+            </div>
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              className="w-full h-72 bg-slate-50 border border-slate-100 rounded-2xl p-4 text-xs font-medium text-slate-600 outline-none resize-none custom-scrollbar focus:ring-2 focus:ring-indigo-100"
+            />
+            <button onClick={save} disabled={!isDirty} className="w-full bg-slate-900 text-white py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-600 transition-all disabled:bg-slate-300">Save Blocklist</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlocklistManager;
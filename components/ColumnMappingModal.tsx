@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { ColumnMapping } from '../types';
+import { IMAGE_SLOT_COUNT, mapRow } from '../services/sheetService';
+import { columnLetter } from '../services/promptTemplateService';
+
+const PREVIEW_ROWS = 5;
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">{label}</span>
+    {children}
+  </label>
+);
+
+const ColumnMappingModal: React.FC<{
+  header: string[];
+  rows: string[][];
+  initialMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}> = ({ header, rows, initialMapping, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+
+  const columnCount = Math.max(header.length, ...rows.slice(0, PREVIEW_ROWS).map(r => r.length));
+  const columns = Array.from({ length: columnCount }, (_, i) => ({
+    index: i,
+    label: `${columnLetter(i)} · ${header[i] || '(trống)'}`,
+  }));
+
+  const columnSelect = (value: number | null, onChange: (value: number | null) => void, allowNone = true) => (
+    <select
+      value={value ?? -1}
+      onChange={e => {
+        const v = Number(e.target.value);
+        onChange(v < 0 ? null : v);
+      }}
+      className="w-full bg-white border border-slate-200 rounded-xl px-2 py-1.5 text-[10px] font-black text-indigo-600 focus:outline-none cursor-pointer"
+    >
+      {allowNone && <option value={-1}>— none —</option>}
+      {columns.map(c => <option key={c.index} value={c.index}>{c.label}</option>)}
+    </select>
+  );
+
+  const setPrompt = (slot: number, value: number | null) => {
+    const next = [mapping.prompt[0] ?? null, mapping.prompt[1] ?? null];
+    next[slot] = value;
+    setMapping({ ...mapping, prompt: next.filter((v): v is number => v !== null) });
+  };
+
+  const setImage = (slot: number, value: number | null) => {
+    const next = Array.from({ length: IMAGE_SLOT_COUNT }, (_, i) => mapping.images[i] ?? -1);
+    next[slot] = value ?? -1;
+    setMapping({ ...mapping, images: next });
+  };
+
+  const preview = rows.slice(0, PREVIEW_ROWS).map(row => mapRow(row, mapping));
+  const importable = rows.filter(row => !!mapRow(row, mapping).name).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-[32px] w-full max-w-6xl overflow-hidden shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-8 flex justify-between items-center border-b border-slate-50">
+          <div>
+            <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">Column Mapping</h3>
+            <p className="text-[11px] font-medium text-slate-400">Chọn cột cho từng trường. Mapping được lưu lại cho link sheet này.</p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-8 space-y-8 overflow-y-auto custom-scrollbar">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-slate-50 p-5 rounded-3xl">
+            <Field label="Name *">{columnSelect(mapping.name, v => setMapping({ ...mapping, name: v ?? 0 }), false)}</Field>
+            <Field label="Prompt">{columnSelect(mapping.prompt[0] ?? null, v => setPrompt(0, v))}</Field>
+            <Field label="Prompt (fallback)">{columnSelect(mapping.prompt[1] ?? null, v => setPrompt(1, v))}</Field>
+            <Field label="Tags">{columnSelect(mapping.tags, v => setMapping({ ...mapping, tags: v }))}</Field>
+            <Field label="Product Type">{columnSelect(mapping.productType, v => setMapping({ ...mapping, productType: v }))}</Field>
+            {Array.from({ length: IMAGE_SLOT_COUNT }, (_, i) => (
+              <Field key={i} label={`Image Slot ${i + 1}`}>
+                {columnSelect((mapping.images[i] ?? -1) < 0 ? null : mapping.images[i], v => setImage(i, v))}
+              </Field>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Preview (first {PREVIEW_ROWS} rows)</label>
+            <div className="overflow-x-auto custom-scrollbar border border-slate-100 rounded-2xl">
+              <table className="w-full text-left text-[11px]">
+                <thead className="bg-slate-50 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                  <tr>
+                    <th className="p-3">Name</th>
+                    <th className="p-3">Prompt</th>
+                    <th className="p-3">Images</th>
+                    <th className="p-3">Tags</th>
+                    <th className="p-3">Product</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row, i) => (
+                    <tr key={i} className="border-t border-slate-50 align-top">
+                      <td className={`p-3 font-black ${row.name ? 'text-slate-900' : 'text-red-400'}`}>{row.name || '(bỏ qua — thiếu tên)'}</td>
+                      <td className="p-3 text-slate-500 max-w-xs"><div className="line-clamp-3">{row.prompt || '—'}</div></td>
+                      <td className="p-3">
+                        <div className="flex gap-1">
+                          {row.imageUrls.map((url, j) => url
+                            ? <img key={j} src={url} className="w-8 h-8 rounded-lg object-cover border border-slate-100" />
+                            : <div key={j} className="w-8 h-8 rounded-lg border border-dashed border-slate-200" />)}
+                        </div>
+                      </td>
+                      <td className="p-3 text-slate-500">{row.tags.join(', ') || '—'}</td>
+                      <td className="p-3 text-slate-500">{row.productType || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-slate-50 flex justify-end gap-2">
+          <button onClick={onCancel} className="px-6 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest text-slate-600 bg-slate-100 hover:bg-slate-200 transition-all">Cancel</button>
+          <button onClick={() => onConfirm(mapping)} disabled={importable === 0} className="px-8 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest text-white bg-indigo-600 hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-100 disabled:bg-slate-300">Import {importable} rows</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingModal;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { GenerationFailure } from '../types';
+import { ERROR_GUIDES } from '../services/generationErrors';
+import ResponseDetails from './ResponseDetails';
+
+const FailureDetails: React.FC<{ failure: GenerationFailure }> = ({ failure }) => failure.response ? (
+  <details>
+    <summary className="text-[9px] font-black uppercase tracking-widest text-red-400 cursor-pointer">Response</summary>
+    <div className="mt-2 bg-white rounded-xl p-3">
+      <ResponseDetails response={failure.response} />
+    </div>
+  </details>
+) : failure.modelText ? (
+  <details>
+    <summary className="text-[9px] font-black uppercase tracking-widest text-red-400 cursor-pointer">Model trả lời</summary>
+    <p className="mt-1 text-[10px] italic text-slate-500 whitespace-pre-wrap max-h-32 overflow-y-auto custom-scrollbar">{failure.modelText}</p>
+  </details>
+) : null;
+
+const GenerationErrorNotice: React.FC<{
+  failure: GenerationFailure;
+  // Lỗi của từng job (chỉ số theo thanh tiến độ); có từ hai job lỗi trở lên thì liệt kê riêng từng job
+  jobFailures?: { job: number; failure: GenerationFailure }[];
+  onConnectKey?: () => void;
+  onRetry?: () => void;
+}> = ({ failure, jobFailures, onConnectKey, onRetry }) => {
+  const guide = ERROR_GUIDES[failure.kind];
+  const perJob = jobFailures && jobFailures.length > 1 ? jobFailures : null;
+  return (
+    <div className="bg-red-50 border border-red-100 rounded-2xl p-3 space-y-1.5">
+      <div className="flex items-center gap-1.5">
+        <span className="text-[8px] font-black px-2 py-1 rounded-lg uppercase bg-red-500 text-white">{guide.label}</span>
+        {failure.finishReason && <span className="text-[8px] font-black px-2 py-1 rounded-lg uppercase bg-white text-red-500">{failure.finishReason}</span>}
+      </div>
+      <p className="text-[10px] font-bold text-red-600 break-words">{failure.message}</p>
+      <p className="text-[10px] font-medium text-red-500/80">{guide.action}</p>
+      {perJob ? (
+        <div className="space-y-1">
+          {perJob.map(({ job, failure: jobFailure }) => (
+            <div key={job} className="bg-white/60 rounded-xl p-2 space-y-1">
+              <p className="text-[9px] font-bold text-red-600 break-words">
+                <span className="font-black">#{job + 1} · {ERROR_GUIDES[jobFailure.kind].label}{jobFailure.finishReason && ` · ${jobFailure.finishReason}`}:</span> {jobFailure.message}
+              </p>
+              <FailureDetails failure={jobFailure} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <FailureDetails failure={failure} />
+      )}
+      {(onConnectKey || onRetry) && (
+        <div className="flex gap-3 pt-1">
+          {failure.kind === 'auth' && onConnectKey && <button onClick={onConnectKey} className="text-[9px] font-black uppercase tracking-widest text-red-600 hover:underline">Connect Key</button>}
+          {onRetry && <button onClick={onRetry} className="text-[9px] font-black uppercase tracking-widest text-red-600 hover:underline">Retry failed</button>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationErrorNotice;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { GenerationSettings } from '../types';
+import { getImageProvider, IMAGE_PROVIDERS } from '../services/imageProvider';
+
+const withCurrent = (options: string[], current: string) =>
+  options.includes(current) ? options : [...options, current];
+
+const GenerationSettingsFields: React.FC<{
+  value: GenerationSettings;
+  onChange: (patch: Partial<GenerationSettings>) => void;
+  disabled?: boolean;
+  compact?: boolean;
+}> = ({ value, onChange, disabled, compact }) => {
+  const provider = getImageProvider(value.provider);
+  const fields: { key: keyof GenerationSettings; label: string; options: { value: string; label: string }[] }[] = [
+    { key: 'provider', label: 'Provider', options: IMAGE_PROVIDERS.map(p => ({ value: p.id, label: p.label })) },
+    { key: 'aspectRatio', label: 'Ratio', options: withCurrent(provider.capabilities.aspectRatios, value.aspectRatio).map(o => ({ value: o, label: o })) },
+    { key: 'imageSize', label: provider.capabilities.normalImageSize ? 'Size' : 'Pro Size', options: withCurrent(provider.capabilities.imageSizes, value.imageSize).map(o => ({ value: o, label: o })) },
+    { key: 'normalModel', label: 'Normal Model', options: withCurrent(provider.models.normal, value.normalModel).map(o => ({ value: o, label: o })) },
+    { key: 'proModel', label: 'Pro Model', options: withCurrent(provider.models.pro, value.proModel).map(o => ({ value: o, label: o })) },
+  ];
+
+  const change = (key: keyof GenerationSettings, next: string) => {
+    if (key !== 'provider') return onChange({ [key]: next } as Partial<GenerationSettings>);
+    // Model của provider cũ không dùng được với provider mới
+    const nextProvider = getImageProvider(next);
+    onChange({ provider: nextProvider.id, normalModel: nextProvider.models.normal[0], proModel: nextProvider.models.pro[0] });
+  };
+
+  return (
+    <div className={compact ? 'grid grid-cols-2 gap-2' : 'flex flex-wrap items-center gap-3'}>
+      {fields.map(field => (
+        <label key={field.key} className={`flex flex-col gap-1 ${compact ? '' : 'min-w-[120px]'}`}>
+          <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">{field.label}</span>
+          <select
+            value={value[field.key]}
+            disabled={disabled}
+            onChange={e => change(field.key, e.target.value)}
+            className="bg-white border border-slate-200 rounded-xl px-2 py-1.5 text-[10px] font-black text-indigo-600 focus:outline-none cursor-pointer disabled:opacity-50"
+          >
+            {field.options.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default GenerationSettingsFields;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { BatchItem, ResultVersion } from '../types';
+import { ResultMode, flattenVersionTree, getHeadId, getSlotVersions } from '../services/historyService';
+
+const KIND_STYLES: Record<ResultVersion['kind'], string> = {
+  generate: 'bg-indigo-50 text-indigo-600',
+  edit: 'bg-amber-50 text-amber-600',
+  inpaint: 'bg-rose-50 text-rose-600',
+  adjust: 'bg-slate-100 text-slate-500',
+  upscale: 'bg-sky-50 text-sky-600',
+  branch: 'bg-emerald-50 text-emerald-600',
+};
+
+const HistoryModal: React.FC<{
+  batch: BatchItem;
+  onRestore: (versionId: string) => void;
+  onBranch: (versionId: string) => void;
+  onClose: () => void;
+}> = ({ batch, onRestore, onBranch, onClose }) => {
+  const slots: { mode: ResultMode; slot: number }[] = [
+    ...batch.resultsNormal.map((_, slot) => ({ mode: 'normal' as const, slot })),
+    ...batch.resultsPro.map((_, slot) => ({ mode: 'pro' as const, slot })),
+  ];
+  const [active, setActive] = useState(slots[0] ?? null);
+  const [compare, setCompare] = useState<string[]>([]);
+
+  const versions = active ? getSlotVersions(batch, active.mode, active.slot) : [];
+  const tree = flattenVersionTree(versions);
+  const headId = active ? getHeadId(batch, active.mode, active.slot) : null;
+  const compared = compare.map(id => versions.find(v => v.id === id)).filter((v): v is ResultVersion => !!v);
+
+  const selectSlot = (next: { mode: ResultMode; slot: number }) => {
+    setActive(next);
+    setCompare([]);
+  };
+
+  // Giữ tối đa 2 version để so sánh; chọn thêm thì bỏ version chọn sớm nhất
+  const toggleCompare = (id: string) => {
+    setCompare(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-[32px] w-full max-w-6xl overflow-hidden shadow-2xl flex flex-col h-[85vh]">
+        <div className="p-6 flex justify-between items-center border-b border-slate-50">
+          <div>
+            <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">History · {batch.name}</h3>
+            <p className="text-[11px] font-medium text-slate-400">{batch.versions?.length ?? 0} versions</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="px-6 py-3 flex flex-wrap gap-1.5 border-b border-slate-50">
+          {slots.length === 0 && <p className="text-[11px] text-slate-300 font-bold">Batch chưa có kết quả nào.</p>}
+          {slots.map(s => (
+            <button
+              key={`${s.mode}:${s.slot}`}
+              onClick={() => selectSlot(s)}
+              className={`px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${active?.mode === s.mode && active?.slot === s.slot ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+            >
+              {s.mode === 'pro' ? 'Pro' : 'Normal'} #{s.slot + 1}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          <div className="w-full md:w-[420px] border-r border-slate-100 overflow-y-auto custom-scrollbar p-4 space-y-2">
+            {active && tree.length === 0 && (
+              <p className="text-[11px] text-slate-300 font-bold p-2">Kết quả này được tạo trước khi có lịch sử version.</p>
+            )}
+            {tree.map(({ version, depth }) => (
+              <div
+                key={version.id}
+                style={{ marginLeft: depth * 16 }}
+                className={`flex gap-3 p-2 rounded-2xl border transition-all ${compare.includes(version.id) ? 'border-indigo-400 bg-indigo-50/40' : 'border-slate-100'}`}
+              >
+                <button onClick={() => toggleCompare(version.id)} className="w-16 h-16 shrink-0 rounded-xl overflow-hidden bg-slate-50 border border-slate-100">
+                  <img src={version.image} className="w-full h-full object-contain" />
+                </button>
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-1.5">
+                    <span className={`text-[8px] font-black px-2 py-0.5 rounded-md uppercase ${KIND_STYLES[version.kind]}`}>{version.kind}</span>
+                    {version.id === headId && <span className="text-[8px] font-black px-2 py-0.5 rounded-md uppercase bg-slate-900 text-white">Current</span>}
+                    <span className="text-[9px] font-bold text-slate-300 ml-auto">{new Date(version.createdAt).toLocaleString()}</span>
+                  </div>
+                  {version.model && <div className="text-[9px] font-black text-slate-400 truncate">{version.model}</div>}
+                  {version.prompt && <div className="text-[10px] text-slate-500 line-clamp-2" title={version.prompt}>{version.prompt}</div>}
+                  {version.references.length > 0 && (
+                    <div className="text-[9px] text-slate-400 truncate" title={version.references.join('\n')}>{version.references.length} refs</div>
+                  )}
+                  <div className="flex gap-1.5 pt-1">
+                    <button onClick={() => onRestore(version.id)} disabled={version.id === headId} className="text-[8px] font-black uppercase tracking-widest px-2 py-1 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-900 hover:text-white transition-all disabled:opacity-40">Restore</button>
+                    <button onClick={() => onBranch(version.id)} className="text-[8px] font-black uppercase tracking-widest px-2 py-1 rounded-lg bg-emerald-50 text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all">Branch</button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 p-6 min-w-0 flex flex-col gap-3">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Compare ({compared.length}/2)</label>
+            {compared.length === 0 ? (
+              <div className="flex-1 flex items-center justify-center text-[11px] text-slate-300 font-bold">Bấm vào thumbnail để chọn version so sánh.</div>
+            ) : (
+              <div className="flex-1 grid grid-cols-2 gap-4 min-h-0">
+                {compared.map(v => (
+                  <div key={v.id} className="flex flex-col gap-2 min-h-0">
+                    <div className="flex-1 min-h-0 rounded-2xl bg-slate-50 border border-slate-100 overflow-hidden">
+                      <img src={v.image} className="w-full h-full object-contain" />
+                    </div>
+                    <div className="text-[9px] font-black text-slate-400 uppercase">{v.kind} · {new Date(v.createdAt).toLocaleTimeString()}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ImportIssue, ImportReport } from '../types';
+
+const Section: React.FC<{ title: string; tone: string; issues: ImportIssue[] }> = ({ title, tone, issues }) => (
+  <div className="space-y-3">
+    <label className={`text-[10px] font-black uppercase tracking-widest ${tone}`}>{title} ({issues.length})</label>
+    {issues.length === 0 ? (
+      <p className="text-[11px] text-slate-300 font-bold">Không có.</p>
+    ) : (
+      <div className="border border-slate-100 rounded-2xl divide-y divide-slate-50">
+        {issues.map((issue, i) => (
+          <div key={i} className="p-3 flex gap-4 text-[11px]">
+            <span className="font-black text-slate-400 w-16 shrink-0">Row {issue.row}</span>
+            <div className="min-w-0 flex-1">
+              {issue.name && <div className="font-black text-slate-900">{issue.name}{issue.slot ? ` · slot ${issue.slot}` : ''}</div>}
+              <div className="text-slate-500">{issue.reason}</div>
+              {issue.url && <a href={issue.url} target="_blank" rel="noreferrer" className="text-indigo-500 hover:underline break-all">{issue.url}</a>}
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const ImportReportModal: React.FC<{ report: ImportReport; onClose: () => void }> = ({ report, onClose }) => (
+  <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+    <div className="bg-white rounded-[32px] w-full max-w-3xl overflow-hidden shadow-2xl flex flex-col max-h-[85vh]">
+      <div className="p-8 flex justify-between items-center border-b border-slate-50">
+        <div>
+          <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">Import Report</h3>
+          <p className="text-[11px] font-medium text-slate-400">Đã import {report.imported}/{report.totalRows} dòng lúc {new Date(report.createdAt).toLocaleTimeString()}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+          <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+        </button>
+      </div>
+      <div className="p-8 space-y-8 overflow-y-auto custom-scrollbar">
+        <Section title="Skipped rows" tone="text-red-500" issues={report.skippedRows} />
+        <Section title="Failed images" tone="text-amber-600" issues={report.failedImages} />
+        <Section title="Empty prompts" tone="text-slate-500" issues={report.emptyPrompts} />
+      </div>
+    </div>
+  </div>
+);
+
+export default ImportReportModal;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { JobProgress, JobState } from '../types';
+
+const STATE_STYLES: Record<JobState, string> = {
+  queued: 'bg-slate-200',
+  running: 'bg-indigo-400 animate-pulse',
+  retrying: 'bg-amber-400 animate-pulse',
+  done: 'bg-emerald-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-slate-300',
+};
+
+const JobProgressBar: React.FC<{ jobs: JobProgress[] }> = ({ jobs }) => {
+  const done = jobs.filter(j => j.state === 'done').length;
+  const retrying = jobs.filter(j => j.state === 'retrying');
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex gap-1">
+        {jobs.map((job, i) => (
+          <div
+            key={i}
+            title={`#${i + 1}: ${job.state}${job.attempt > 0 ? ` (retry ${job.attempt})` : ''}`}
+            className={`h-1.5 flex-1 rounded-full ${STATE_STYLES[job.state]}`}
+          />
+        ))}
+      </div>
+      <div className="text-[8px] font-black uppercase tracking-widest text-slate-400">
+        {done}/{jobs.length} done
+        {retrying.length > 0 && <span className="text-amber-500"> · {retrying.length} retrying</span>}
+      </div>
+    </div>
+  );
+};
+
+export default JobProgressBar;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ListingMetadata } from '../types';
+import { joinTags, LISTING_LIMITS, listingIssues } from '../services/listingService';
+
+const Counter: React.FC<{ length: number; limit: { min: number; max: number } }> = ({ length, limit }) => (
+  <span className={`text-[8px] font-black ${length > limit.max || length < limit.min ? 'text-red-500' : 'text-slate-300'}`}>{length}/{limit.max}</span>
+);
+
+const Field: React.FC<{
+  label: string;
+  value: string;
+  limit: { min: number; max: number };
+  rows?: number;
+  onChange: (value: string) => void;
+}> = ({ label, value, limit, rows, onChange }) => (
+  <label className="flex flex-col gap-1">
+    <span className="flex justify-between items-center">
+      <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">{label}</span>
+      <Counter length={value.length} limit={limit} />
+    </span>
+    {rows ? (
+      <textarea value={value} rows={rows} onChange={e => onChange(e.target.value)} className="w-full bg-white border border-slate-100 rounded-xl px-2.5 py-2 text-[10px] font-medium text-slate-600 outline-none resize-y custom-scrollbar focus:ring-2 focus:ring-indigo-100" />
+    ) : (
+      <input value={value} onChange={e => onChange(e.target.value)} className="w-full bg-white border border-slate-100 rounded-xl px-2.5 py-2 text-[10px] font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-100" />
+    )}
+  </label>
+);
+
+const ListingEditor: React.FC<{
+  label: string;
+  thumbnail: string;
+  listing: ListingMetadata;
+  onChange: (listing: ListingMetadata) => void;
+  onRegenerate?: () => void;
+}> = ({ label, thumbnail, listing, onChange, onRegenerate }) => {
+  const update = (patch: Partial<ListingMetadata>) => onChange({ ...listing, ...patch, updatedAt: Date.now() });
+  const issues = listingIssues(listing);
+
+  return (
+    <div className="space-y-2 bg-slate-50/80 rounded-2xl p-3">
+      <div className="flex items-center gap-2">
+        <img src={thumbnail} className="w-8 h-8 rounded-lg object-contain bg-checkered" />
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 flex-1">{label}</span>
+        {onRegenerate && <button onClick={onRegenerate} className="text-[8px] font-black uppercase tracking-widest text-indigo-500 hover:underline">Rewrite</button>}
+      </div>
+      <Field label="Brand" value={listing.brand} limit={LISTING_LIMITS.brand} onChange={brand => update({ brand })} />
+      <Field label="Title" value={listing.title} limit={LISTING_LIMITS.title} onChange={title => update({ title })} />
+      {listing.bullets.map((bullet, i) => (
+        <Field
+          key={i}
+          label={`Bullet ${i + 1}`}
+          value={bullet}
+          rows={2}
+          limit={LISTING_LIMITS.bullet}
+          onChange={value => update({ bullets: listing.bullets.map((b, j) => j === i ? value : b) as [string, string] })}
+        />
+      ))}
+      <Field label="Description" value={listing.description} rows={3} limit={LISTING_LIMITS.description} onChange={description => update({ description })} />
+      <Field
+        label="Tags (phân cách bằng dấu phẩy)"
+        value={joinTags(listing.tags)}
+        limit={LISTING_LIMITS.tags}
+        onChange={value => update({ tags: value.split(',').map(t => t.trimStart()) })}
+      />
+      {issues.length > 0 && <p className="text-[9px] font-bold text-red-500">{issues.join(' · ')}</p>}
+    </div>
+  );
+};
+
+export default ListingEditor;
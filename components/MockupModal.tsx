@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { AdjustmentLayer, MockupSettings } from '../types';
+import { renderAdjustments } from '../services/adjustmentService';
+import { getMockupTemplate, mockupColor, MOCKUP_TEMPLATES, prepareMockupDesign, renderMockup } from '../services/mockupService';
+
+const MockupModal: React.FC<{
+  image: string;
+  layers: readonly AdjustmentLayer[];
+  fileName: string;
+  settings: MockupSettings;
+  onSettingsChange: (patch: Partial<MockupSettings>) => void;
+  onClose: () => void;
+}> = ({ image, layers, fileName, settings, onSettingsChange, onClose }) => {
+  const [design, setDesign] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const template = getMockupTemplate(settings.templateId);
+  const color = mockupColor(template, settings);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDesign(null);
+    setError(null);
+    renderAdjustments(image, layers)
+      .then(adjusted => prepareMockupDesign(adjusted, settings.knockout))
+      .then(out => { if (!cancelled) setDesign(out); })
+      .catch(e => { if (!cancelled) setError(e.message); });
+    return () => { cancelled = true; };
+  }, [image, layers, settings.knockout]);
+
+  useEffect(() => {
+    if (!design) return;
+    let cancelled = false;
+    setError(null);
+    renderMockup(design, template, settings)
+      .then(out => { if (!cancelled) setPreview(out); })
+      .catch(e => { if (!cancelled) setError(e.message); });
+    return () => { cancelled = true; };
+  }, [design, template, settings]);
+
+  const toggleExportTemplate = (id: string) => {
+    const current = settings.exportTemplates;
+    onSettingsChange({ exportTemplates: current.includes(id) ? current.filter(t => t !== id) : [...current, id] });
+  };
+
+  const download = () => {
+    if (!preview) return;
+    const link = document.createElement('a');
+    link.download = `${fileName} - ${template.label} mockup.png`;
+    link.href = preview;
+    link.click();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-[32px] w-full max-w-6xl overflow-hidden shadow-2xl flex flex-col md:flex-row h-[90vh]">
+        <div className="flex-1 bg-slate-100 p-8 flex items-center justify-center overflow-hidden relative">
+          {preview ? (
+            <img src={preview} className="max-w-full max-h-full object-contain shadow-2xl rounded-xl" />
+          ) : (
+            <div className="w-12 h-12 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+          )}
+          {error && <p className="absolute bottom-6 left-6 right-6 text-[11px] font-bold text-red-500 bg-white rounded-xl p-3">{error}</p>}
+        </div>
+        <div className="w-full md:w-80 border-l border-slate-100 flex flex-col">
+          <div className="p-8 space-y-8 flex-1 overflow-y-auto custom-scrollbar">
+            <div className="flex justify-between items-center">
+              <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">Mockup</h3>
+              <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+              </button>
+            </div>
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Product</label>
+              <div className="grid grid-cols-3 gap-1">
+                {MOCKUP_TEMPLATES.map(t => (
+                  <button key={t.id} onClick={() => onSettingsChange({ templateId: t.id })} className={`py-2.5 rounded-xl text-[9px] font-black uppercase transition-all ${t.id === template.id ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>{t.label}</button>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {template.colors.map(c => (
+                  <button key={c} onClick={() => onSettingsChange({ colors: { ...settings.colors, [template.id]: c } })} style={{ backgroundColor: c }} className={`w-8 h-8 rounded-full border-2 transition-all ${c === color ? 'border-indigo-500 scale-110' : 'border-slate-200'}`} />
+                ))}
+              </div>
+            </div>
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Placement</label>
+              <div className="space-y-4 bg-slate-50 p-4 rounded-2xl">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>Scale</span><span>{Math.round(settings.scale * 100)}%</span></div>
+                  <input type="range" min="0.2" max="1.5" step="0.05" value={settings.scale} onChange={e => onSettingsChange({ scale: Number(e.target.value) })} className="w-full accent-indigo-600 h-1 bg-slate-200 rounded-full appearance-none" />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>Horizontal</span><span>{Math.round(settings.offsetX * 100)}%</span></div>
+                  <input type="range" min="-0.5" max="0.5" step="0.01" value={settings.offsetX} onChange={e => onSettingsChange({ offsetX: Number(e.target.value) })} className="w-full accent-indigo-600 h-1 bg-slate-200 rounded-full appearance-none" />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase"><span>Vertical</span><span>{Math.round(settings.offsetY * 100)}%</span></div>
+                  <input type="range" min="-0.5" max="0.5" step="0.01" value={settings.offsetY} onChange={e => onSettingsChange({ offsetY: Number(e.target.value) })} className="w-full accent-indigo-600 h-1 bg-slate-200 rounded-full appearance-none" />
+                </div>
+                <label className="flex items-center gap-2 text-[9px] font-bold text-slate-500 uppercase cursor-pointer">
+                  <input type="checkbox" checked={settings.knockout} onChange={e => onSettingsChange({ knockout: e.target.checked })} className="accent-indigo-600" />
+                  Remove black background
+                </label>
+              </div>
+            </div>
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Include in ZIP export</label>
+              <div className="space-y-2">
+                {MOCKUP_TEMPLATES.map(t => (
+                  <label key={t.id} className="flex items-center gap-2 text-[10px] font-bold text-slate-600 cursor-pointer">
+                    <input type="checkbox" checked={settings.exportTemplates.includes(t.id)} onChange={() => toggleExportTemplate(t.id)} className="accent-indigo-600" />
+                    {t.label} <span className="text-slate-300">({mockupColor(t, settings)})</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-[9px] font-bold text-slate-400">Scale và vị trí ở trên được dùng cho mọi mockup khi export.</p>
+            </div>
+          </div>
+          <div className="p-8 border-t border-slate-50">
+            <button onClick={download} disabled={!preview} className="w-full bg-emerald-500 text-white py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-emerald-600 transition-all shadow-lg shadow-emerald-100 disabled:bg-slate-300">Download Mockup</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MockupModal;
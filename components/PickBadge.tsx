@@ -0,0 +1,15 @@
+import React from 'react';
+import { ResultPick } from '../types';
+
+const PickBadge: React.FC<{ pick: ResultPick }> = ({ pick }) => {
+  if (!pick.status && !pick.rating) return null;
+  return (
+    <div className="absolute top-3 left-3 z-30 flex items-center gap-1 pointer-events-none">
+      {pick.status === 'favorite' && <span className="text-[9px] font-black bg-amber-400 text-white px-2 py-1 rounded-lg">★ FAV</span>}
+      {pick.status === 'rejected' && <span className="text-[9px] font-black bg-red-500 text-white px-2 py-1 rounded-lg">✕ REJECTED</span>}
+      {pick.rating && <span className="text-[9px] font-black bg-white/90 text-amber-500 px-2 py-1 rounded-lg">{'★'.repeat(pick.rating)}</span>}
+    </div>
+  );
+};
+
+export default PickBadge;
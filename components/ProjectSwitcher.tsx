@@ -0,0 +1,29 @@
+import React from 'react';
+import { ProjectSummary } from '../types';
+
+const ProjectSwitcher: React.FC<{
+  projects: ProjectSummary[];
+  activeId: string | null;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+}> = ({ projects, activeId, disabled, onSelect, onCreate, onRename, onDelete }) => (
+  <div className="flex items-center gap-2 bg-slate-50 px-4 py-2.5 rounded-2xl border border-slate-200">
+    <span className="text-[10px] font-black uppercase text-slate-400">Project:</span>
+    <select
+      value={activeId ?? ''}
+      disabled={disabled}
+      onChange={e => onSelect(e.target.value)}
+      className="bg-transparent text-sm font-black text-indigo-600 focus:outline-none cursor-pointer max-w-[180px] disabled:opacity-50"
+    >
+      {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+    </select>
+    <button onClick={onCreate} disabled={disabled} title="New project" className="px-2 py-1 rounded-lg text-[9px] font-black uppercase text-slate-500 hover:bg-white hover:text-indigo-600 transition-all disabled:opacity-50">New</button>
+    <button onClick={onRename} disabled={disabled || !activeId} title="Rename project" className="px-2 py-1 rounded-lg text-[9px] font-black uppercase text-slate-500 hover:bg-white hover:text-indigo-600 transition-all disabled:opacity-50">Rename</button>
+    <button onClick={onDelete} disabled={disabled || !activeId} title="Delete project" className="px-2 py-1 rounded-lg text-[9px] font-black uppercase text-red-400 hover:bg-white hover:text-red-500 transition-all disabled:opacity-50">Delete</button>
+  </div>
+);
+
+export default ProjectSwitcher;
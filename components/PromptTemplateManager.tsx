@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { PromptTemplate } from '../types';
+import { extractPlaceholders, renderTemplate } from '../services/promptTemplateService';
+
+const PromptTemplateManager: React.FC<{
+  templates: PromptTemplate[];
+  availableVariables: string[];
+  sampleVariables: Record<string, string> | null;
+  onChange: (templates: PromptTemplate[]) => void;
+  onApplyToAll: (templateId: string | undefined) => void;
+  onClose: () => void;
+}> = ({ templates, availableVariables, sampleVariables, onChange, onApplyToAll, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+  const [draft, setDraft] = useState<PromptTemplate | null>(templates[0] ?? null);
+
+  const select = (template: PromptTemplate) => {
+    setSelectedId(template.id);
+    setDraft(template);
+  };
+
+  const createTemplate = (base?: PromptTemplate) => {
+    const template: PromptTemplate = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: base ? `${base.name} (copy)` : 'New template',
+      body: base?.body ?? '{{prompt}}',
+      updatedAt: Date.now(),
+    };
+    onChange([...templates, template]);
+    select(template);
+  };
+
+  const saveDraft = () => {
+    if (!draft || draft.builtIn) return;
+    onChange(templates.map(t => t.id === draft.id ? { ...draft, updatedAt: Date.now() } : t));
+  };
+
+  const deleteTemplate = () => {
+    if (!draft || draft.builtIn) return;
+    if (!confirm(`Xóa template "${draft.name}"?`)) return;
+    const remaining = templates.filter(t => t.id !== draft.id);
+    onChange(remaining);
+    if (remaining[0]) select(remaining[0]);
+  };
+
+  const placeholders = draft ? extractPlaceholders(draft.body) : [];
+  const unknown = placeholders.filter(p => !availableVariables.includes(p));
+  const saved = draft ? templates.find(t => t.id === draft.id) : undefined;
+  const isDirty = !!draft && !!saved && (saved.body !== draft.body || saved.name !== draft.name);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-[32px] w-full max-w-6xl overflow-hidden shadow-2xl flex flex-col md:flex-row h-[85vh]">
+        <div className="w-full md:w-72 border-r border-slate-100 flex flex-col">
+          <div className="p-6 flex justify-between items-center">
+            <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">Prompt Templates</h3>
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scrollbar px-4 space-y-1">
+            {templates.map(t => (
+              <button key={t.id} onClick={() => select(t)} className={`w-full text-left px-4 py-3 rounded-2xl text-[11px] font-black uppercase tracking-wide transition-all ${t.id === selectedId ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}>
+                {t.name}
+                {t.builtIn && <span className={`ml-2 text-[8px] ${t.id === selectedId ? 'text-indigo-200' : 'text-slate-300'}`}>BUILT-IN</span>}
+              </button>
+            ))}
+          </div>
+          <div className="p-4 grid grid-cols-2 gap-2 border-t border-slate-50">
+            <button onClick={() => createTemplate()} className="bg-slate-900 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-600 transition-all">New</button>
+            <button onClick={() => draft && createTemplate(draft)} disabled={!draft} className="bg-slate-100 text-slate-600 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-slate-200 transition-all disabled:opacity-50">Duplicate</button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="p-6 flex justify-between items-center border-b border-slate-50">
+            <input
+              value={draft?.name ?? ''}
+              disabled={!draft || draft.builtIn}
+              onChange={e => draft && setDraft({ ...draft, name: e.target.value })}
+              className="flex-1 text-lg font-black text-slate-900 bg-transparent outline-none disabled:text-slate-500"
+            />
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+              <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+            </button>
+          </div>
+          <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-6 p-6 overflow-y-auto custom-scrollbar">
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Template Body</label>
+              <textarea
+                value={draft?.body ?? ''}
+                disabled={!draft || draft.builtIn}
+                onChange={e => draft && setDraft({ ...draft, body: e.target.value })}
+                className="flex-1 min-h-[240px] w-full bg-slate-50 border border-slate-100 rounded-2xl p-4 text-xs font-medium font-mono focus:ring-2 focus:ring-indigo-500 outline-none resize-none disabled:text-slate-500"
+              />
+              <div className="flex flex-wrap gap-1.5">
+                {availableVariables.map(v => (
+                  <button
+                    key={v}
+                    disabled={!draft || draft.builtIn}
+                    onClick={() => draft && setDraft({ ...draft, body: `${draft.body}{{${v}}}` })}
+                    className={`text-[9px] font-black px-2 py-1 rounded-lg border transition-all disabled:opacity-50 ${placeholders.includes(v) ? 'bg-indigo-50 border-indigo-100 text-indigo-600' : 'bg-white border-slate-200 text-slate-500 hover:border-indigo-200'}`}
+                  >
+                    {`{{${v}}}`}
+                  </button>
+                ))}
+              </div>
+              {unknown.length > 0 && (
+                <p className="text-[10px] font-bold text-amber-600">Không có cột nào cho: {unknown.map(u => `{{${u}}}`).join(', ')} — sẽ được thay bằng chuỗi rỗng.</p>
+              )}
+            </div>
+            <div className="flex flex-col gap-3">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Preview (first batch)</label>
+              <pre className="flex-1 min-h-[240px] bg-slate-900 text-slate-100 rounded-2xl p-4 text-[11px] whitespace-pre-wrap font-mono overflow-y-auto custom-scrollbar">
+                {draft && sampleVariables ? renderTemplate(draft.body, sampleVariables) : 'Chưa có batch nào để xem trước.'}
+              </pre>
+            </div>
+          </div>
+          <div className="p-6 border-t border-slate-50 flex flex-wrap gap-2 justify-end">
+            <button onClick={deleteTemplate} disabled={!draft || draft.builtIn} className="px-6 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest text-red-500 bg-red-50 hover:bg-red-500 hover:text-white transition-all disabled:opacity-50">Delete</button>
+            <button onClick={() => onApplyToAll(undefined)} className="px-6 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest text-slate-600 bg-slate-100 hover:bg-slate-200 transition-all">Use sheet prompts for all</button>
+            <button onClick={() => draft && onApplyToAll(draft.id)} disabled={!draft} className="px-6 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest text-indigo-600 bg-indigo-50 border border-indigo-100 hover:bg-indigo-100 transition-all disabled:opacity-50">Apply to all batches</button>
+            <button onClick={saveDraft} disabled={!draft || draft.builtIn || !isDirty} className="px-6 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest text-white bg-slate-900 hover:bg-indigo-600 transition-all disabled:bg-slate-300">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateManager;
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { ImageFile } from '../types';
+import { imageFilesFromDataTransfer } from '../services/referenceImages';
+
+export const SLOT_DRAG_TYPE = 'application/x-pod-slot';
+
+export interface SlotDragData {
+  batchId: string;
+  index: number;
+}
+
+const ReferenceSlot: React.FC<{
+  batchId: string;
+  index: number;
+  image: ImageFile | null;
+  disabled?: boolean;
+  onFiles: (files: File[]) => void;
+  onSlotDrop: (source: SlotDragData) => void;
+  onRemove: () => void;
+  onZoom: (src: string) => void;
+}> = ({ batchId, index, image, disabled, onFiles, onSlotDrop, onRemove, onZoom }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOver, setIsOver] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsOver(false);
+    if (disabled) return;
+    const slotData = e.dataTransfer.getData(SLOT_DRAG_TYPE);
+    if (slotData) {
+      onSlotDrop(JSON.parse(slotData) as SlotDragData);
+      return;
+    }
+    const files = imageFilesFromDataTransfer(e.dataTransfer);
+    if (files.length > 0) onFiles(files);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (disabled) return;
+    const files = imageFilesFromDataTransfer(e.clipboardData);
+    if (files.length === 0) return;
+    e.preventDefault();
+    onFiles(files);
+  };
+
+  return (
+    <div
+      tabIndex={0}
+      onDragOver={e => { e.preventDefault(); setIsOver(true); }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={handleDrop}
+      onPaste={handlePaste}
+      className={`w-44 h-60 rounded-[32px] border-2 shadow-sm overflow-hidden bg-slate-50 relative group shrink-0 outline-none focus:border-indigo-300 transition-all ${isOver ? 'border-indigo-400 bg-indigo-50' : 'border-slate-50'}`}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={e => {
+          const files = Array.from(e.target.files ?? []);
+          if (files.length > 0) onFiles(files);
+          e.target.value = '';
+        }}
+      />
+      {image ? (
+        <>
+          <img
+            src={image.preview}
+            draggable={!disabled}
+            onDragStart={e => e.dataTransfer.setData(SLOT_DRAG_TYPE, JSON.stringify({ batchId, index }))}
+            onClick={() => onZoom(image.preview)}
+            className="w-full h-full object-cover cursor-zoom-in"
+            alt={`Ref ${index + 1}`}
+          />
+          {!disabled && (
+            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity">
+              <button onClick={() => inputRef.current?.click()} title="Replace" className="w-7 h-7 rounded-full bg-white/90 text-slate-600 hover:text-indigo-600 shadow flex items-center justify-center">
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"/></svg>
+              </button>
+              <button onClick={onRemove} title="Remove" className="w-7 h-7 rounded-full bg-white/90 text-slate-600 hover:text-red-500 shadow flex items-center justify-center">
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+              </button>
+            </div>
+          )}
+        </>
+      ) : (
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="w-full h-full flex flex-col items-center justify-center text-slate-300 gap-2 border-2 border-dashed border-slate-100 rounded-[32px] hover:text-indigo-400 transition-colors"
+        >
+          <span className="text-[8px] font-black uppercase tracking-widest opacity-60">Slot {index + 1} Empty</span>
+          <span className="text-[8px] font-bold uppercase tracking-widest opacity-40">Drop · Paste · Click</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceSlot;
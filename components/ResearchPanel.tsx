@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { BatchItem, ResearchListing, ResearchSettings } from '../types';
+import { fetchListings, parseListings } from '../services/researchService';
+import { IMAGE_SLOT_COUNT } from '../services/sheetService';
+
+const ResearchPanel: React.FC<{
+  batch: BatchItem;
+  settings: ResearchSettings;
+  onSettingsChange: (patch: Partial<ResearchSettings>) => void;
+  onSendToSlots: (listings: ResearchListing[], replace: boolean) => Promise<void>;
+  onOpenAmazon: (query: string) => void;
+  onClose: () => void;
+}> = ({ batch, settings, onSettingsChange, onSendToSlots, onOpenAmazon, onClose }) => {
+  const [query, setQuery] = useState([batch.name, ...(batch.tags ?? [])].join(' '));
+  const [dump, setDump] = useState('');
+  const [listings, setListings] = useState<ResearchListing[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [replace, setReplace] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const freeSlots = batch.images.filter(img => !img).length + Math.max(0, IMAGE_SLOT_COUNT - batch.images.length);
+  const maxSelected = replace ? IMAGE_SLOT_COUNT : freeSlots;
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const next = settings.source === 'endpoint' ? await fetchListings(settings.endpoint, query) : parseListings(dump);
+      setListings(next);
+      setSelected([]);
+      if (next.length === 0) setError("Không tìm thấy listing nào trong dữ liệu.");
+    } catch (e: any) {
+      setError("Lỗi khi lấy listing: " + e.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : prev.length < maxSelected ? [...prev, id] : prev);
+  };
+
+  const send = async () => {
+    setIsSending(true);
+    try {
+      await onSendToSlots(selected.map(id => listings.find(l => l.id === id)!).filter(Boolean), replace);
+      setSelected([]);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-[32px] w-full max-w-6xl overflow-hidden shadow-2xl flex flex-col h-[90vh]">
+        <div className="p-6 flex flex-wrap gap-4 justify-between items-center border-b border-slate-50">
+          <div>
+            <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">Research · {batch.name}</h3>
+            <p className="text-[11px] font-medium text-slate-400">Chọn tối đa {maxSelected} listing để đưa thumbnail vào reference slot.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+          <div className="w-full lg:w-80 border-r border-slate-100 p-6 space-y-6 overflow-y-auto custom-scrollbar">
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Keywords</label>
+              <input value={query} onChange={e => setQuery(e.target.value)} className="w-full bg-slate-50 border border-slate-100 rounded-xl px-3 py-2.5 text-xs font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-100" />
+              <button onClick={() => onOpenAmazon(query)} className="text-[9px] font-black uppercase tracking-widest text-indigo-500 hover:underline">Mở tìm kiếm Amazon ↗</button>
+            </div>
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Source</label>
+              <div className="grid grid-cols-2 gap-1">
+                {(['paste', 'endpoint'] as ResearchSettings['source'][]).map(source => (
+                  <button key={source} onClick={() => onSettingsChange({ source })} className={`py-2.5 rounded-xl text-[9px] font-black uppercase transition-all ${settings.source === source ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>{source === 'paste' ? 'Paste dump' : 'Endpoint'}</button>
+                ))}
+              </div>
+              {settings.source === 'paste' ? (
+                <textarea
+                  value={dump}
+                  onChange={e => setDump(e.target.value)}
+                  placeholder="Dán HTML trang kết quả Amazon hoặc JSON (mảng / {results: [...]})"
+                  className="w-full h-48 bg-slate-50 border border-slate-100 rounded-2xl p-3 text-[10px] font-mono text-slate-500 outline-none resize-none custom-scrollbar"
+                />
+              ) : (
+                <>
+                  <input value={settings.endpoint} onChange={e => onSettingsChange({ endpoint: e.target.value })} placeholder="https://scraper.example.com/search?q={query}" className="w-full bg-slate-50 border border-slate-100 rounded-xl px-3 py-2.5 text-[10px] font-bold text-slate-600 outline-none" />
+                  <p className="text-[9px] font-bold text-slate-400">Endpoint trả về HTML hoặc JSON; {'{query}'} được thay bằng keywords.</p>
+                </>
+              )}
+              <button onClick={load} disabled={isLoading || (settings.source === 'paste' ? !dump.trim() : !settings.endpoint.trim() || !query.trim())} className="w-full bg-indigo-600 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-700 transition-all disabled:bg-slate-300">
+                {isLoading ? 'Loading...' : settings.source === 'paste' ? 'Parse Listings' : 'Search'}
+              </button>
+              {error && <p className="text-[10px] font-bold text-red-500">{error}</p>}
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col min-h-0">
+            <div className="flex-1 p-6 overflow-y-auto custom-scrollbar">
+              {listings.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-[11px] text-slate-300 font-bold">Chưa có listing.</div>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+                  {listings.map((listing, i) => {
+                    const isSelected = selected.includes(listing.id);
+                    return (
+                      <div key={listing.id} onClick={() => toggle(listing.id)} className={`relative rounded-2xl border-2 p-3 cursor-pointer transition-all ${isSelected ? 'border-indigo-500 bg-indigo-50/40' : 'border-slate-100 hover:border-slate-200'}`}>
+                        <div className="aspect-square bg-slate-50 rounded-xl overflow-hidden mb-2">
+                          <img src={listing.thumbnail} referrerPolicy="no-referrer" className="w-full h-full object-contain" />
+                        </div>
+                        <div className="text-[10px] font-bold text-slate-700 line-clamp-2 mb-1" title={listing.title}>{listing.title}</div>
+                        <div className="flex justify-between text-[9px] font-black uppercase">
+                          <span className="text-slate-400">{listing.bsr ? `BSR #${listing.bsr.toLocaleString()}` : `#${i + 1}`}</span>
+                          <span className="text-emerald-600">{listing.price ?? ''}</span>
+                        </div>
+                        {listing.url && (
+                          <a href={listing.url} target="_blank" rel="noreferrer" onClick={e => e.stopPropagation()} className="text-[9px] font-black text-indigo-500 hover:underline">{listing.asin ?? 'Listing'} ↗</a>
+                        )}
+                        {isSelected && <span className="absolute top-2 right-2 w-6 h-6 rounded-full bg-indigo-600 text-white text-[10px] font-black flex items-center justify-center">{selected.indexOf(listing.id) + 1}</span>}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+            <div className="p-6 border-t border-slate-50 flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400 cursor-pointer">
+                <input type="checkbox" checked={replace} onChange={e => { setReplace(e.target.checked); setSelected([]); }} className="accent-indigo-600" />
+                Thay toàn bộ 5 slot
+              </label>
+              <span className="text-[10px] font-bold text-slate-400">{replace ? 'Ảnh reference hiện có sẽ bị thay.' : `${freeSlots} slot trống.`}</span>
+              <button onClick={send} disabled={selected.length === 0 || isSending} className="ml-auto bg-emerald-500 text-white px-8 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-emerald-600 transition-all disabled:bg-slate-300">
+                {isSending ? 'Downloading...' : `Send to slots (${selected.length})`}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResearchPanel;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ResponseMetadata } from '../types';
+
+const Chip: React.FC<{ label: string; tone: 'ok' | 'warn' | 'bad' | 'neutral' }> = ({ label, tone }) => {
+  const tones = {
+    ok: 'bg-emerald-50 text-emerald-600',
+    warn: 'bg-amber-100 text-amber-700',
+    bad: 'bg-red-500 text-white',
+    neutral: 'bg-slate-100 text-slate-500',
+  };
+  return <span className={`text-[8px] font-black px-2 py-1 rounded-lg uppercase ${tones[tone]}`}>{label}</span>;
+};
+
+const ResponseDetails: React.FC<{ response?: ResponseMetadata }> = ({ response }) => {
+  if (!response) {
+    return <p className="text-[10px] font-bold text-slate-300">Không có metadata (ảnh được tạo trước khi app lưu response).</p>;
+  }
+  const ratings = response.safetyRatings ?? [];
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {response.finishReason && <Chip label={response.finishReason} tone={response.finishReason === 'STOP' ? 'ok' : 'warn'} />}
+        {response.blockReason && <Chip label={`Blocked · ${response.blockReason}`} tone="bad" />}
+        {response.modelVersion && <Chip label={response.modelVersion} tone="neutral" />}
+      </div>
+      {(response.finishMessage || response.blockReasonMessage) && (
+        <p className="text-[10px] font-bold text-amber-700">{[response.blockReasonMessage, response.finishMessage].filter(Boolean).join(' · ')}</p>
+      )}
+      <div className="space-y-1">
+        <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">Model text</span>
+        {response.text ? (
+          <p className="text-[11px] text-slate-600 whitespace-pre-wrap bg-slate-50 rounded-xl p-3 max-h-60 overflow-y-auto custom-scrollbar">{response.text}</p>
+        ) : (
+          <p className="text-[10px] font-bold text-slate-300">Model không viết gì kèm ảnh.</p>
+        )}
+      </div>
+      {ratings.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">Safety ratings</span>
+          {ratings.map((r, i) => (
+            <div key={i} className="flex justify-between text-[10px]">
+              <span className="font-bold text-slate-500">{r.category.replace('HARM_CATEGORY_', '')}</span>
+              <span className={`font-black ${r.blocked ? 'text-red-500' : r.probability === 'NEGLIGIBLE' ? 'text-slate-300' : 'text-amber-600'}`}>{r.probability}{r.blocked ? ' · BLOCKED' : ''}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResponseDetails;
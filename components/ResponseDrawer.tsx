@@ -0,0 +1,34 @@
+import React from 'react';
+import { ResultVersion } from '../types';
+import ResponseDetails from './ResponseDetails';
+
+const ResponseDrawer: React.FC<{
+  title: string;
+  version?: ResultVersion;
+  onClose: () => void;
+}> = ({ title, version, onClose }) => (
+  <div className="fixed inset-0 z-[100] flex justify-end bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+    <div className="bg-white w-full max-w-md h-full shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+      <div className="p-6 flex justify-between items-center border-b border-slate-50">
+        <div>
+          <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">Model Response</h3>
+          <p className="text-[11px] font-medium text-slate-400">{title}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+          <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+        </button>
+      </div>
+      <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+        {version && (
+          <div className="space-y-1">
+            <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">{version.kind} · {version.model || 'local'}</span>
+            {version.prompt && <p className="text-[11px] italic text-slate-500 whitespace-pre-wrap">{version.prompt}</p>}
+          </div>
+        )}
+        <ResponseDetails response={version?.response} />
+      </div>
+    </div>
+  </div>
+);
+
+export default ResponseDrawer;
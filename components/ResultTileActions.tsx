@@ -0,0 +1,11 @@
+import React from 'react';
+
+const ResultTileActions: React.FC<{ onZoom: () => void; onMockup: () => void; onInfo?: () => void }> = ({ onZoom, onMockup, onInfo }) => (
+  <div className="absolute bottom-3 right-3 z-30 flex gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+    {onInfo && <button onClick={e => { e.stopPropagation(); onInfo(); }} className="bg-white/90 text-slate-500 px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-white">Info</button>}
+    <button onClick={e => { e.stopPropagation(); onZoom(); }} className="bg-white/90 text-slate-700 px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-white">Zoom</button>
+    <button onClick={e => { e.stopPropagation(); onMockup(); }} className="bg-white/90 text-indigo-600 px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-white">Mockup</button>
+  </div>
+);
+
+export default ResultTileActions;
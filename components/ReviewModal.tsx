@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { BatchItem } from '../types';
+import { resultsKey } from '../services/historyService';
+import { getAdjustments } from '../services/adjustmentService';
+import { ReviewItem, buildReviewItems, countPicks, getPick, setPick, togglePickStatus } from '../services/reviewService';
+import AdjustedImage from './AdjustedImage';
+
+type ReviewFilter = 'all' | 'unreviewed' | 'favorites';
+
+const SHORTCUTS = [
+  ['← →', 'Prev / next'],
+  ['↑ ↓', 'Prev / next batch'],
+  ['F', 'Favorite'],
+  ['X', 'Reject'],
+  ['1-5', 'Rating'],
+  ['0', 'Clear rating'],
+  ['Esc', 'Close'],
+];
+
+const filterItems = (batches: BatchItem[], filter: ReviewFilter) => {
+  const items = buildReviewItems(batches);
+  if (filter === 'all') return items;
+  return items.filter(item => {
+    const batch = batches.find(b => b.id === item.batchId);
+    const pick = batch ? getPick(batch, item.mode, item.slot) : {};
+    return filter === 'favorites' ? pick.status === 'favorite' : !pick.status && !pick.rating;
+  });
+};
+
+const sameItem = (a: ReviewItem, b: ReviewItem) => a.batchId === b.batchId && a.mode === b.mode && a.slot === b.slot;
+
+const ReviewModal: React.FC<{
+  batches: BatchItem[];
+  startBatchId?: string;
+  onUpdateBatch: (batchId: string, update: (batch: BatchItem) => BatchItem) => void;
+  onClose: () => void;
+}> = ({ batches, startBatchId, onUpdateBatch, onClose }) => {
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  // Danh sách được chốt khi đổi filter để chấm điểm không làm nhảy vị trí
+  const [items, setItems] = useState<ReviewItem[]>(() => filterItems(batches, 'all'));
+  const [index, setIndex] = useState(() => Math.max(0, items.findIndex(i => i.batchId === startBatchId)));
+  const [autoAdvance, setAutoAdvance] = useState(true);
+
+  const current = items[Math.min(index, items.length - 1)];
+  const batch = current ? batches.find(b => b.id === current.batchId) : undefined;
+  const image = current && batch ? batch[resultsKey(current.mode)][current.slot] : undefined;
+  const pick = current && batch ? getPick(batch, current.mode, current.slot) : {};
+
+  const changeFilter = (next: ReviewFilter) => {
+    setFilter(next);
+    setItems(filterItems(batches, next));
+    setIndex(0);
+  };
+
+  const move = (delta: number) => setIndex(i => Math.max(0, Math.min(items.length - 1, i + delta)));
+
+  const moveBatch = (delta: number) => {
+    if (!current) return;
+    const batchIds = Array.from(new Set(items.map(i => i.batchId)));
+    const target = batchIds[batchIds.indexOf(current.batchId) + delta];
+    if (target) setIndex(items.findIndex(i => i.batchId === target));
+  };
+
+  const updateCurrent = (update: (batch: BatchItem) => BatchItem, advance: boolean) => {
+    if (!current) return;
+    onUpdateBatch(current.batchId, update);
+    if (advance && autoAdvance) move(1);
+  };
+
+  const markStatus = (status: 'favorite' | 'rejected') =>
+    current && updateCurrent(b => togglePickStatus(b, current.mode, current.slot, status), true);
+
+  const rate = (rating: number | undefined) =>
+    current && updateCurrent(b => setPick(b, current.mode, current.slot, { rating }), false);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+      if (e.key === 'ArrowRight') move(1);
+      else if (e.key === 'ArrowLeft') move(-1);
+      else if (e.key === 'ArrowDown') moveBatch(1);
+      else if (e.key === 'ArrowUp') moveBatch(-1);
+      else if (e.key === 'f' || e.key === 'F') markStatus('favorite');
+      else if (e.key === 'x' || e.key === 'X') markStatus('rejected');
+      else if (e.key >= '1' && e.key <= '5') rate(Number(e.key));
+      else if (e.key === '0') rate(undefined);
+      else if (e.key === 'Escape') onClose();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const batchItems = current ? items.filter(i => i.batchId === current.batchId) : [];
+  const totals = batches.reduce((acc, b) => {
+    const c = countPicks(b);
+    return { favorites: acc.favorites + c.favorites, rejected: acc.rejected + c.rejected };
+  }, { favorites: 0, rejected: 0 });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/95 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-[32px] w-full max-w-7xl overflow-hidden shadow-2xl flex flex-col h-[90vh]">
+        <div className="p-6 flex flex-wrap gap-4 justify-between items-center border-b border-slate-50">
+          <div>
+            <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">Review{batch ? ` · ${batch.name}` : ''}</h3>
+            <p className="text-[11px] font-medium text-slate-400">
+              {items.length > 0 ? `${Math.min(index, items.length - 1) + 1} / ${items.length}` : '0 / 0'} · {totals.favorites} favorites · {totals.rejected} rejected
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select value={filter} onChange={e => changeFilter(e.target.value as ReviewFilter)} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-[10px] font-black uppercase text-slate-600 outline-none">
+              <option value="all">All outputs</option>
+              <option value="unreviewed">Unreviewed</option>
+              <option value="favorites">Favorites</option>
+            </select>
+            <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={autoAdvance} onChange={e => setAutoAdvance(e.target.checked)} className="accent-indigo-600" />
+              Auto next
+            </label>
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+              <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+            </button>
+          </div>
+        </div>
+
+        {!current || !batch || !image ? (
+          <div className="flex-1 flex items-center justify-center text-[11px] text-slate-300 font-bold">Không có kết quả nào để review.</div>
+        ) : (
+          <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+            <div className="flex-1 p-6 flex flex-col gap-4 min-h-0">
+              <div className={`flex-1 min-h-0 rounded-[32px] bg-checkered overflow-hidden border-4 transition-colors ${pick.status === 'favorite' ? 'border-amber-400' : pick.status === 'rejected' ? 'border-red-400 opacity-60' : 'border-slate-100'}`}>
+                <AdjustedImage src={image} layers={getAdjustments(batch, current.mode, current.slot)} className="w-full h-full object-contain" />
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-[10px] font-black uppercase text-slate-400 mr-2">{current.mode === 'pro' ? 'Pro' : 'Normal'} #{current.slot + 1}</span>
+                <button onClick={() => markStatus('favorite')} className={`px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${pick.status === 'favorite' ? 'bg-amber-400 text-white' : 'bg-amber-50 text-amber-600 hover:bg-amber-100'}`}>★ Favorite</button>
+                <button onClick={() => markStatus('rejected')} className={`px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${pick.status === 'rejected' ? 'bg-red-500 text-white' : 'bg-red-50 text-red-500 hover:bg-red-100'}`}>✕ Reject</button>
+                <div className="flex gap-1 ml-2">
+                  {[1, 2, 3, 4, 5].map(r => (
+                    <button key={r} onClick={() => rate(pick.rating === r ? undefined : r)} className={`w-8 h-8 rounded-lg text-sm font-black transition-all ${(pick.rating ?? 0) >= r ? 'text-amber-500' : 'text-slate-200 hover:text-amber-300'}`}>★</button>
+                  ))}
+                </div>
+                <div className="ml-auto flex gap-2">
+                  <button onClick={() => move(-1)} disabled={index === 0} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase bg-slate-100 text-slate-600 disabled:opacity-40">Prev</button>
+                  <button onClick={() => move(1)} disabled={index >= items.length - 1} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase bg-slate-900 text-white disabled:opacity-40">Next</button>
+                </div>
+              </div>
+            </div>
+
+            <div className="w-full lg:w-[360px] border-l border-slate-100 p-6 flex flex-col gap-4 min-h-0">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Variants ({batchItems.length})</label>
+              <div className="grid grid-cols-3 gap-2 overflow-y-auto custom-scrollbar">
+                {batchItems.map(item => {
+                  const src = batch[resultsKey(item.mode)][item.slot];
+                  const itemPick = getPick(batch, item.mode, item.slot);
+                  return (
+                    <button
+                      key={`${item.mode}:${item.slot}`}
+                      onClick={() => setIndex(items.findIndex(i => sameItem(i, item)))}
+                      className={`relative aspect-square rounded-xl bg-checkered overflow-hidden border-2 transition-all ${sameItem(item, current) ? 'border-indigo-500' : 'border-transparent'} ${itemPick.status === 'rejected' ? 'opacity-40' : ''}`}
+                    >
+                      {src && <img src={src} className="w-full h-full object-contain" />}
+                      <span className="absolute bottom-1 left-1 text-[8px] font-black bg-white/90 text-slate-500 px-1.5 rounded">{item.mode === 'pro' ? 'P' : 'N'}{item.slot + 1}</span>
+                      {itemPick.status === 'favorite' && <span className="absolute top-1 right-1 text-amber-400 text-sm">★</span>}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="mt-auto grid grid-cols-2 gap-x-3 gap-y-1.5 pt-4 border-t border-slate-50">
+                {SHORTCUTS.map(([key, label]) => (
+                  <div key={key} className="flex items-center gap-2 text-[10px] text-slate-400">
+                    <kbd className="font-black text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded">{key}</kbd>{label}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewModal;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ProjectSummary, UsageBudget, UsageRecord } from '../types';
+import { dayKey, formatUsd, spentInScope, summarizeUsage, UsageSummary } from '../services/usageService';
+
+type UsageView = 'day' | 'batch' | 'project' | 'model';
+
+const VIEWS: { id: UsageView; label: string }[] = [
+  { id: 'day', label: 'Per day' },
+  { id: 'batch', label: 'Per batch' },
+  { id: 'project', label: 'Per project' },
+  { id: 'model', label: 'Per model' },
+];
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-slate-50 rounded-2xl p-4">
+    <div className="text-[9px] font-black uppercase tracking-widest text-slate-400">{label}</div>
+    <div className="text-xl font-black text-slate-900">{value}</div>
+    {hint && <div className="text-[10px] font-bold text-slate-400">{hint}</div>}
+  </div>
+);
+
+const UsageDashboard: React.FC<{
+  records: UsageRecord[];
+  projects: ProjectSummary[];
+  activeProjectId?: string;
+  budget: UsageBudget;
+  onBudgetChange: (patch: Partial<UsageBudget>) => void;
+  onClear: () => void;
+  onClose: () => void;
+}> = ({ records, projects, activeProjectId, budget, onBudgetChange, onClear, onClose }) => {
+  const [view, setView] = useState<UsageView>('day');
+  const today = dayKey(Date.now());
+  const projectRecords = records.filter(r => r.projectId === activeProjectId);
+  const sum = (list: UsageRecord[]) => list.reduce((s, r) => s + r.cost, 0);
+  const spent = spentInScope(records, budget, activeProjectId);
+  const projectName = (id: string) => projects.find(p => p.id === id)?.name ?? 'Project đã xóa';
+
+  const rows: UsageSummary[] = view === 'day'
+    ? summarizeUsage(records, r => dayKey(r.createdAt)).sort((a, b) => b.key.localeCompare(a.key))
+    : view === 'batch'
+    ? summarizeUsage(projectRecords.filter(r => r.batchId), r => r.batchId!, r => r.batchName || r.batchId!).sort((a, b) => b.cost - a.cost)
+    : view === 'project'
+    ? summarizeUsage(records, r => r.projectId, r => projectName(r.projectId)).sort((a, b) => b.cost - a.cost)
+    : summarizeUsage(records, r => `${r.model}:${r.imageSize ?? ''}`, r => `${r.model}${r.imageSize ? ` · ${r.imageSize}` : ''}`).sort((a, b) => b.cost - a.cost);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-[32px] w-full max-w-4xl overflow-hidden shadow-2xl flex flex-col max-h-[85vh]">
+        <div className="p-8 flex justify-between items-center border-b border-slate-50">
+          <div>
+            <h3 className="font-black text-slate-900 uppercase tracking-tighter text-lg">Usage & Cost</h3>
+            <p className="text-[11px] font-medium text-slate-400">Chi phí ước tính theo bảng giá của provider, {records.length} lượt gọi đã ghi nhận.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+        <div className="p-8 space-y-8 overflow-y-auto custom-scrollbar">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat label="Today" value={formatUsd(sum(records.filter(r => dayKey(r.createdAt) === today)))} />
+            <Stat label="This project" value={formatUsd(sum(projectRecords))} hint={`${projectRecords.length} calls`} />
+            <Stat label="All time" value={formatUsd(sum(records))} hint={`${records.filter(r => r.outcome === 'error').length} errors`} />
+            <Stat label="Budget" value={budget.cap > 0 ? `${formatUsd(spent)} / ${formatUsd(budget.cap)}` : 'Off'} hint={budget.cap > 0 ? (budget.scope === 'day' ? 'hôm nay' : 'project này') : undefined} />
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Budget Cap</label>
+            <div className="flex flex-wrap items-center gap-3 bg-slate-50 p-4 rounded-2xl">
+              <span className="text-[10px] font-black uppercase text-slate-400">USD:</span>
+              <input type="number" min={0} step={0.5} value={budget.cap} onChange={e => onBudgetChange({ cap: Math.max(0, Number(e.target.value) || 0) })} title="0 = không giới hạn" className="w-24 bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-sm font-black text-indigo-600 focus:outline-none" />
+              <select value={budget.scope} onChange={e => onBudgetChange({ scope: e.target.value as UsageBudget['scope'] })} className="bg-white border border-slate-200 rounded-xl px-3 py-1.5 text-[10px] font-black uppercase text-slate-600 outline-none">
+                <option value="day">Per day</option>
+                <option value="project">Per project</option>
+              </select>
+              <p className="text-[10px] font-bold text-slate-400 flex-1 min-w-[200px]">Khi chạm mức này queue sẽ tự PAUSE; các job đang chạy vẫn hoàn thành.</p>
+            </div>
+            {budget.cap > 0 && (
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className={`h-full transition-all ${spent >= budget.cap ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${Math.min(100, (spent / budget.cap) * 100)}%` }} />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-1">
+              {VIEWS.map(v => (
+                <button key={v.id} onClick={() => setView(v.id)} className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase transition-all ${view === v.id ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>{v.label}</button>
+              ))}
+            </div>
+            {rows.length === 0 ? (
+              <p className="text-[11px] text-slate-300 font-bold">Chưa có dữ liệu.</p>
+            ) : (
+              <div className="border border-slate-100 rounded-2xl divide-y divide-slate-50">
+                <div className="p-3 grid grid-cols-[1fr_60px_60px_80px_80px] gap-3 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                  <span>{VIEWS.find(v => v.id === view)?.label.replace('Per ', '')}</span><span className="text-right">Calls</span><span className="text-right">Errors</span><span className="text-right">Avg time</span><span className="text-right">Cost</span>
+                </div>
+                {rows.map(row => (
+                  <div key={row.key} className="p-3 grid grid-cols-[1fr_60px_60px_80px_80px] gap-3 text-[11px]">
+                    <span className="font-black text-slate-900 truncate" title={row.label}>{row.label}</span>
+                    <span className="text-right text-slate-500">{row.calls}</span>
+                    <span className={`text-right ${row.errors > 0 ? 'text-red-500 font-bold' : 'text-slate-300'}`}>{row.errors}</span>
+                    <span className="text-right text-slate-500">{(row.avgLatencyMs / 1000).toFixed(1)}s</span>
+                    <span className="text-right font-black text-indigo-600">{formatUsd(row.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {records.length > 0 && (
+            <button onClick={() => confirm('Xóa toàn bộ lịch sử chi phí?') && onClear()} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500">Clear usage history</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { WriteBackSettings } from '../types';
+
+const WriteBackPanel: React.FC<{
+  settings: WriteBackSettings;
+  onChange: (patch: Partial<WriteBackSettings>) => void;
+  onWriteBackAll: () => void;
+  canWriteBack: boolean;
+}> = ({ settings, onChange, onWriteBackAll, canWriteBack }) => (
+  <details className="px-5">
+    <summary className="text-[10px] font-black text-slate-400 uppercase tracking-widest cursor-pointer">
+      Sheet Write-back {settings.enabled ? <span className="text-emerald-600">● ON</span> : <span>○ OFF</span>}
+    </summary>
+    <div className="mt-4 flex flex-col md:flex-row md:items-end gap-4">
+      <label className="flex items-center gap-2 shrink-0 cursor-pointer">
+        <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ enabled: e.target.checked })} className="accent-indigo-600" />
+        <span className="text-[10px] font-black uppercase text-slate-500">Enable</span>
+      </label>
+      <label className="flex-1 flex flex-col gap-1">
+        <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">Apps Script Web App URL</span>
+        <input
+          type="text"
+          value={settings.endpoint}
+          onChange={e => onChange({ endpoint: e.target.value.trim() })}
+          placeholder="https://script.google.com/macros/s/.../exec"
+          className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-bold text-slate-700 focus:ring-4 focus:ring-indigo-100 outline-none"
+        />
+      </label>
+      <label className="flex flex-col gap-1 shrink-0">
+        <span className="text-[8px] font-black uppercase tracking-widest text-slate-400">Send</span>
+        <select value={settings.payload} onChange={e => onChange({ payload: e.target.value as WriteBackSettings['payload'] })} className="bg-white border border-slate-200 rounded-xl px-2 py-2.5 text-[10px] font-black text-indigo-600 focus:outline-none cursor-pointer">
+          <option value="filenames">Status + file names</option>
+          <option value="data">Status + image data</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-2 shrink-0 cursor-pointer pb-2.5">
+        <input type="checkbox" checked={settings.auto} onChange={e => onChange({ auto: e.target.checked })} className="accent-indigo-600" />
+        <span className="text-[10px] font-black uppercase text-slate-500">Auto after batch</span>
+      </label>
+      <button onClick={onWriteBackAll} disabled={!settings.enabled || !settings.endpoint || !canWriteBack} className="shrink-0 bg-slate-900 text-white px-6 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-600 transition-all disabled:bg-slate-300">Write back all</button>
+    </div>
+  </details>
+);
+
+export default WriteBackPanel;
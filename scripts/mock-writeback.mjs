@@ -0,0 +1,41 @@
+// Endpoint giả lập Apps Script để test write-back ở local:
+//   npm run mock:writeback   → http://localhost:8787
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: false, error: 'POST only' }));
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    try {
+      const payload = JSON.parse(body);
+      const files = (payload.results || []).map(r => `${r.fileName}${r.image ? ` (${Math.round(r.image.length / 1024)} KB data)` : ''}`);
+      console.log(`[${new Date().toLocaleTimeString()}] row ${payload.row} "${payload.name}" → ${payload.status}${payload.error ? ` (${payload.error})` : ''}`);
+      files.forEach(f => console.log(`    ${f}`));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, row: payload.row }));
+    } catch (e) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }));
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock write-back endpoint listening on http://localhost:${PORT}`);
+});
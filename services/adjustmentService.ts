@@ -0,0 +1,267 @@
+import { AdjustmentLayer, AdjustmentLayerType, AdjustmentPreset, BatchItem } from "../types";
+import { loadImage, createCanvas, imageToCanvas } from "./imageUtils";
+import { ResultMode, resultsKey, slotKey } from "./historyService";
+import { getSetting, setSetting } from "./storageService";
+
+const PRESETS_KEY = 'adjustmentPresets';
+const RENDER_CACHE_LIMIT = 40;
+
+export const LAYER_LABELS: Record<AdjustmentLayerType, string> = {
+  crop: 'Crop',
+  flip: 'Flip',
+  rotate: 'Rotate',
+  brightnessContrast: 'Brightness / Contrast',
+  hueSaturation: 'Hue / Saturation',
+  levels: 'Levels',
+  sharpen: 'Sharpen',
+  blackPoint: 'Black Point',
+};
+
+export const createLayer = (type: AdjustmentLayerType): AdjustmentLayer => {
+  const base = { id: Math.random().toString(36).substr(2, 9), enabled: true };
+  switch (type) {
+    case 'crop': return { ...base, type, left: 0, top: 0, right: 0, bottom: 0 };
+    case 'flip': return { ...base, type, horizontal: true, vertical: false };
+    case 'rotate': return { ...base, type, angle: 90 };
+    case 'brightnessContrast': return { ...base, type, brightness: 100, contrast: 100 };
+    case 'hueSaturation': return { ...base, type, hue: 0, saturation: 0, lightness: 0 };
+    case 'levels': return { ...base, type, inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+    case 'sharpen': return { ...base, type, amount: 50 };
+    case 'blackPoint': return { ...base, type, threshold: 16 };
+  }
+};
+
+// Layer trong preset được cấp id mới để sửa trên ảnh này không ảnh hưởng ảnh khác
+export const cloneLayers = (layers: readonly AdjustmentLayer[]): AdjustmentLayer[] =>
+  layers.map(layer => ({ ...layer, id: Math.random().toString(36).substr(2, 9) }));
+
+// Dùng chung một mảng rỗng (đã freeze) để slot chưa có layer không tạo tham chiếu mới mỗi lần render;
+// cần sửa thì copy bằng cloneLayers hoặc [...layers]
+const EMPTY_LAYERS: readonly AdjustmentLayer[] = Object.freeze([]);
+
+export const getAdjustments = (batch: BatchItem, mode: ResultMode, slot: number): readonly AdjustmentLayer[] =>
+  batch.adjustments?.[slotKey(mode, slot)] ?? EMPTY_LAYERS;
+
+export const setAdjustments = (batch: BatchItem, mode: ResultMode, slot: number, layers: AdjustmentLayer[]): BatchItem => {
+  const adjustments = { ...batch.adjustments };
+  if (layers.length === 0) delete adjustments[slotKey(mode, slot)];
+  else adjustments[slotKey(mode, slot)] = layers;
+  return { ...batch, adjustments };
+};
+
+export const applyAdjustmentsToBatch = (batch: BatchItem, layers: readonly AdjustmentLayer[]): BatchItem =>
+  (['normal', 'pro'] as ResultMode[]).reduce((acc, mode) =>
+    acc[resultsKey(mode)].reduce((next, _, slot) => setAdjustments(next, mode, slot, cloneLayers(layers)), acc), batch);
+
+export const clearAdjustments = (batch: BatchItem, mode: ResultMode): Record<string, AdjustmentLayer[]> =>
+  Object.fromEntries(Object.entries(batch.adjustments ?? {}).filter(([k]) => !k.startsWith(`${mode}:`)));
+
+const clampByte = (v: number) => v < 0 ? 0 : v > 255 ? 255 : v;
+
+const buildLut = (fn: (v: number) => number) => {
+  const lut = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) lut[i] = clampByte(Math.round(fn(i)));
+  return lut;
+};
+
+const applyLut = (data: Uint8ClampedArray, lut: Uint8ClampedArray) => {
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+};
+
+const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+  r /= 255; g /= 255; b /= 255;
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [h / 6, s, l];
+};
+
+const hueToRgb = (p: number, q: number, t: number) => {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  if (s === 0) return [l * 255, l * 255, l * 255];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return [hueToRgb(p, q, h + 1 / 3) * 255, hueToRgb(p, q, h) * 255, hueToRgb(p, q, h - 1 / 3) * 255];
+};
+
+const sharpen = (image: ImageData, amount: number) => {
+  const { width, height, data } = image;
+  const source = new Uint8ClampedArray(data);
+  const k = amount / 100;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const i = o + c;
+        const blur = (source[i - 4] + source[i + 4] + source[i - width * 4] + source[i + width * 4] + source[i]) / 5;
+        data[i] = clampByte(source[i] + (source[i] - blur) * k * 2);
+      }
+    }
+  }
+};
+
+// Các layer chỉ đổi màu pixel (không đổi hình học), áp trực tiếp lên ImageData
+export const applyPixelLayer = (image: ImageData, layer: AdjustmentLayer): void => {
+  const { data } = image;
+  switch (layer.type) {
+    case 'brightnessContrast': {
+      const b = layer.brightness / 100;
+      const c = layer.contrast / 100;
+      applyLut(data, buildLut(v => (v * b - 128) * c + 128));
+      break;
+    }
+    case 'levels': {
+      const range = Math.max(1, layer.inputWhite - layer.inputBlack);
+      const gamma = Math.max(0.01, layer.gamma);
+      applyLut(data, buildLut(v => {
+        const t = Math.min(1, Math.max(0, (v - layer.inputBlack) / range));
+        return layer.outputBlack + (layer.outputWhite - layer.outputBlack) * Math.pow(t, 1 / gamma);
+      }));
+      break;
+    }
+    case 'hueSaturation': {
+      const hueShift = layer.hue / 360;
+      const sat = layer.saturation / 100;
+      const light = layer.lightness / 100;
+      for (let i = 0; i < data.length; i += 4) {
+        let [h, s, l] = rgbToHsl(data[i], data[i + 1], data[i + 2]);
+        h = (h + hueShift + 1) % 1;
+        s = Math.min(1, Math.max(0, sat >= 0 ? s + (1 - s) * sat : s * (1 + sat)));
+        l = Math.min(1, Math.max(0, light >= 0 ? l + (1 - l) * light : l * (1 + light)));
+        const [r, g, b] = hslToRgb(h, s, l);
+        data[i] = r;
+        data[i + 1] = g;
+        data[i + 2] = b;
+      }
+      break;
+    }
+    case 'sharpen':
+      sharpen(image, layer.amount);
+      break;
+    case 'blackPoint':
+      for (let i = 0; i < data.length; i += 4) {
+        if (Math.max(data[i], data[i + 1], data[i + 2]) <= layer.threshold) {
+          data[i] = 0;
+          data[i + 1] = 0;
+          data[i + 2] = 0;
+        }
+      }
+      break;
+  }
+};
+
+const applyLayer = (source: HTMLCanvasElement, layer: AdjustmentLayer): HTMLCanvasElement => {
+  const { width, height } = source;
+  switch (layer.type) {
+    case 'crop': {
+      const x = Math.round(width * layer.left / 100);
+      const y = Math.round(height * layer.top / 100);
+      const w = Math.max(1, width - x - Math.round(width * layer.right / 100));
+      const h = Math.max(1, height - y - Math.round(height * layer.bottom / 100));
+      const { canvas, ctx } = createCanvas(w, h);
+      ctx.drawImage(source, x, y, w, h, 0, 0, w, h);
+      return canvas;
+    }
+    case 'flip': {
+      const { canvas, ctx } = createCanvas(width, height);
+      ctx.translate(layer.horizontal ? width : 0, layer.vertical ? height : 0);
+      ctx.scale(layer.horizontal ? -1 : 1, layer.vertical ? -1 : 1);
+      ctx.drawImage(source, 0, 0);
+      return canvas;
+    }
+    case 'rotate': {
+      const rad = (layer.angle * Math.PI) / 180;
+      const cos = Math.abs(Math.cos(rad)), sin = Math.abs(Math.sin(rad));
+      const { canvas, ctx } = createCanvas(Math.round(width * cos + height * sin), Math.round(width * sin + height * cos));
+      ctx.translate(canvas.width / 2, canvas.height / 2);
+      ctx.rotate(rad);
+      ctx.drawImage(source, -width / 2, -height / 2);
+      return canvas;
+    }
+    default: {
+      const ctx = source.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return source;
+      const image = ctx.getImageData(0, 0, width, height);
+      applyPixelLayer(image, layer);
+      ctx.putImageData(image, 0, 0);
+      return source;
+    }
+  }
+};
+
+export const hasActiveLayers = (layers: readonly AdjustmentLayer[] | undefined) => !!layers?.some(l => l.enabled);
+
+// maxDimension > 0 thì thu nhỏ trước khi xử lý (dùng cho xem trước trực tiếp)
+export const renderAdjustmentsToCanvas = async (src: string, layers: readonly AdjustmentLayer[], maxDimension = 0): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(src);
+  const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight)) : 1;
+  let canvas: HTMLCanvasElement;
+  if (scale < 1) {
+    const scaled = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+    scaled.ctx.imageSmoothingQuality = 'high';
+    scaled.ctx.drawImage(img, 0, 0, scaled.canvas.width, scaled.canvas.height);
+    canvas = scaled.canvas;
+  } else {
+    canvas = imageToCanvas(img).canvas;
+  }
+  for (const layer of layers) {
+    if (layer.enabled) canvas = applyLayer(canvas, layer);
+  }
+  return canvas;
+};
+
+// Khóa ngoài là nguyên data URL nguồn (so khớp chính xác, không đụng hàng giữa hai ảnh),
+// khóa trong là bộ layer + kích thước
+const renderCache = new Map<string, Map<string, Promise<string>>>();
+
+const layersSignature = (layers: readonly AdjustmentLayer[]) => JSON.stringify(layers.map(({ id, ...rest }) => rest));
+
+export const sameLayers = (a: readonly AdjustmentLayer[], b: readonly AdjustmentLayer[]) => layersSignature(a) === layersSignature(b);
+
+const cacheKey = (layers: readonly AdjustmentLayer[], maxDimension: number) =>
+  `${maxDimension}:${layersSignature(layers.filter(l => l.enabled))}`;
+
+const cachedRenderCount = () => [...renderCache.values()].reduce((sum, renders) => sum + renders.size, 0);
+
+export const renderAdjustments = (src: string, layers: readonly AdjustmentLayer[] | undefined, maxDimension = 0): Promise<string> => {
+  if (!layers || !hasActiveLayers(layers)) return Promise.resolve(src);
+  const key = cacheKey(layers, maxDimension);
+  const renders = renderCache.get(src) ?? new Map<string, Promise<string>>();
+  const cached = renders.get(key);
+  if (cached) return cached;
+  const pending = renderAdjustmentsToCanvas(src, layers, maxDimension).then(canvas => canvas.toDataURL('image/png'));
+  pending.catch(() => renders.delete(key));
+  renders.set(key, pending);
+  // Đưa ảnh vừa dùng về cuối để khi vượt giới hạn thì bỏ ảnh ít dùng nhất
+  renderCache.delete(src);
+  renderCache.set(src, renders);
+  while (cachedRenderCount() > RENDER_CACHE_LIMIT) {
+    const [oldestSrc, oldest] = renderCache.entries().next().value!;
+    oldest.delete(oldest.keys().next().value!);
+    if (oldest.size === 0) renderCache.delete(oldestSrc);
+  }
+  return pending;
+};
+
+export const loadAdjustmentPresets = async (): Promise<AdjustmentPreset[]> => {
+  return (await getSetting<AdjustmentPreset[]>(PRESETS_KEY)) ?? [];
+};
+
+export const saveAdjustmentPresets = async (presets: AdjustmentPreset[]): Promise<void> => {
+  await setSetting(PRESETS_KEY, presets);
+};
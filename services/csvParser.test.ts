@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { isEmptyRow, parseCSV, toCSV } from './csvParser';
+
+describe('parseCSV', () => {
+  it('tách ô theo dấu phẩy', () => {
+    expect(parseCSV('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('giữ dấu phẩy và xuống dòng trong ô có ngoặc kép', () => {
+    expect(parseCSV('"a,b","line 1\nline 2",c')).toEqual([['a,b', 'line 1\nline 2', 'c']]);
+  });
+
+  it('chuyển "" trong ô có ngoặc kép thành "', () => {
+    expect(parseCSV('"say ""hi""",x')).toEqual([['say "hi"', 'x']]);
+  });
+
+  it('hỗ trợ CRLF và CR', () => {
+    expect(parseCSV('a,b\r\nc,d\re,f')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f']]);
+  });
+
+  it('không tạo dòng thừa với newline cuối file', () => {
+    expect(parseCSV('a,b\n')).toEqual([['a', 'b']]);
+    expect(parseCSV('a,b\r\n')).toEqual([['a', 'b']]);
+  });
+
+  it('bỏ BOM đầu file', () => {
+    expect(parseCSV('\uFEFFname,url\nx,y')).toEqual([['name', 'url'], ['x', 'y']]);
+  });
+
+  it('giữ dòng trống để số dòng khớp với sheet', () => {
+    const rows = parseCSV('a\n\nb');
+    expect(rows).toEqual([['a'], [''], ['b']]);
+    expect(isEmptyRow(rows[1])).toBe(true);
+  });
+
+  it('giữ ô rỗng ở cuối dòng', () => {
+    expect(parseCSV('a,,\n')).toEqual([['a', '', '']]);
+  });
+
+  it('hỗ trợ delimiter khác', () => {
+    expect(parseCSV('a;"b;c"', ';')).toEqual([['a', 'b;c']]);
+  });
+
+  it('báo lỗi khi thiếu ngoặc kép đóng', () => {
+    expect(() => parseCSV('"abc')).toThrow();
+  });
+});
+
+describe('toCSV', () => {
+  it('thêm BOM và escape ô đặc biệt', () => {
+    expect(toCSV([['a', 'b,c'], ['say "hi"', 'x\ny']])).toBe('\uFEFFa,"b,c"\r\n"say ""hi""","x\ny"');
+  });
+
+  it('parseCSV đọc lại đúng dữ liệu từ toCSV', () => {
+    const rows = [
+      ['Batch', 'Prompt', 'Tags'],
+      ['Cà phê', 'line 1\r\nline 2', '"quoted", comma'],
+      ['', ' spaces ', 'đ'],
+    ];
+    expect(parseCSV(toCSV(rows))).toEqual(rows);
+  });
+});
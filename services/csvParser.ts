@@ -0,0 +1,63 @@
+// Parser CSV theo RFC 4180: hỗ trợ ô có dấu phẩy, xuống dòng và "" bên trong dấu ngoặc kép.
+// Trả về toàn bộ record (kể cả dòng trống) để số dòng khớp với số dòng trong sheet.
+export const parseCSV = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === '\r' || ch === '\n') {
+      endRow();
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      // Dấu " lạc giữa ô không đúng chuẩn nhưng vẫn giữ nguyên thay vì làm hỏng cả dòng
+      field += ch;
+    }
+    i++;
+  }
+
+  if (inQuotes) throw new Error("CSV không hợp lệ: thiếu dấu ngoặc kép đóng.");
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+export const isEmptyRow = (row: string[]) => row.every(cell => !cell.trim());
+
+const escapeCell = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+// BOM để Excel nhận đúng UTF-8 (tiếng Việt, ký tự đặc biệt)
+export const toCSV = (rows: string[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
@@ -0,0 +1,130 @@
+import { loadImage, createCanvas } from "./imageUtils";
+
+export interface ExportPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  dpi: number;
+  fit: 'contain' | 'cover';
+}
+
+export const ORIGINAL_PRESET_ID = 'original';
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: ORIGINAL_PRESET_ID, label: 'Original size', width: 0, height: 0, dpi: 300, fit: 'contain' },
+  { id: 'shirt', label: 'T-Shirt 4500×5400', width: 4500, height: 5400, dpi: 300, fit: 'contain' },
+  { id: 'hoodie', label: 'Hoodie 4500×4050', width: 4500, height: 4050, dpi: 300, fit: 'contain' },
+  { id: 'mug', label: 'Mug Wrap 2:1 4000×2000', width: 4000, height: 2000, dpi: 300, fit: 'contain' },
+  { id: 'sticker', label: 'Sticker 15×15in 4500×4500', width: 4500, height: 4500, dpi: 300, fit: 'contain' },
+  { id: 'hat', label: 'Hat Patch 1500×1050', width: 1500, height: 1050, dpi: 300, fit: 'contain' },
+];
+
+export const getExportPreset = (id: string) =>
+  EXPORT_PRESETS.find(p => p.id === id) ?? EXPORT_PRESETS[0];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const PNG_SIGNATURE_LENGTH = 8;
+
+// Ghi (hoặc thay) chunk pHYs ngay sau IHDR để phần mềm in đọc đúng DPI
+export const setPngDpi = (png: Uint8Array, dpi: number): Uint8Array => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Uint8Array[] = [png.subarray(0, PNG_SIGNATURE_LENGTH)];
+  let offset = PNG_SIGNATURE_LENGTH;
+  let inserted = false;
+
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const phys = new Uint8Array(21);
+  const physView = new DataView(phys.buffer);
+  physView.setUint32(0, 9);
+  phys.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  physView.setUint32(8, pixelsPerMeter);
+  physView.setUint32(12, pixelsPerMeter);
+  phys[16] = 1; // đơn vị: mét
+  physView.setUint32(17, crc32(phys.subarray(4, 17)));
+
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (type !== 'pHYs') chunks.push(png.subarray(offset, end));
+    if (type === 'IHDR' && !inserted) {
+      chunks.push(phys);
+      inserted = true;
+    }
+    offset = end;
+  }
+
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let pos = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, pos);
+    pos += chunk.length;
+  }
+  return out;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array) => {
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return `data:image/png;base64,${btoa(binary)}`;
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error("Không thể mã hóa PNG."));
+      blob.arrayBuffer().then(buf => resolve(new Uint8Array(buf)), reject);
+    }, 'image/png');
+  });
+};
+
+// Nền ảnh gốc còn đục (chưa knockout) thì padding cùng màu, ngược lại để trong suốt
+const sampleBackground = (img: HTMLImageElement): string | null => {
+  const { ctx } = createCanvas(1, 1);
+  ctx.drawImage(img, 0, 0, 1, 1, 0, 0, 1, 1);
+  const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+  return a === 255 ? `rgb(${r}, ${g}, ${b})` : null;
+};
+
+export const applyExportPreset = async (src: string, preset: ExportPreset): Promise<string> => {
+  const img = await loadImage(src);
+  const width = preset.width || img.naturalWidth;
+  const height = preset.height || img.naturalHeight;
+  const { canvas, ctx } = createCanvas(width, height);
+
+  const background = sampleBackground(img);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const scaleFn = preset.fit === 'cover' ? Math.max : Math.min;
+  const scale = scaleFn(width / img.naturalWidth, height / img.naturalHeight);
+  const drawW = img.naturalWidth * scale;
+  const drawH = img.naturalHeight * scale;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, (width - drawW) / 2, (height - drawH) / 2, drawW, drawH);
+
+  const png = await canvasToPng(canvas);
+  return bytesToDataUrl(setPngDpi(png, preset.dpi));
+};
@@ -0,0 +1,95 @@
+import { GenerateContentResponse, GoogleGenAI, ImageConfig, Part } from "@google/genai";
+import { ImageSize, ResponseMetadata } from "../types";
+import { GenerationError, SAFETY_REASONS } from "./generationErrors";
+import { ImageProvider, ProviderRequest, ProviderResult } from "./imageProvider";
+import { mimeFromDataUrl } from "./referenceImages";
+
+export const ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
+export const IMAGE_SIZES: ImageSize[] = ["1K", "2K", "4K"];
+
+// USD / ảnh theo bảng giá Gemini API; model lạ tính theo giá Pro để budget không bị đánh giá thấp
+const PRICING: Record<string, Partial<Record<ImageSize, number>> & { default: number }> = {
+  'gemini-2.5-flash-image': { default: 0.039 },
+  'gemini-3-pro-image-preview': { default: 0.134, '4K': 0.24 },
+};
+
+const inlinePart = (dataUrl: string, mimeType?: string): Part => ({
+  inlineData: {
+    data: dataUrl.split(',')[1],
+    mimeType: mimeType || mimeFromDataUrl(dataUrl),
+  },
+});
+
+export const describeResponse = (response: GenerateContentResponse): ResponseMetadata => {
+  const candidate = response.candidates?.[0];
+  const text = (candidate?.content?.parts ?? []).filter(part => !part.thought).map(part => part.text ?? '').join('').trim();
+  const ratings = [...(response.promptFeedback?.safetyRatings ?? []), ...(candidate?.safetyRatings ?? [])];
+  return {
+    text: text || undefined,
+    finishReason: candidate?.finishReason,
+    finishMessage: candidate?.finishMessage,
+    blockReason: response.promptFeedback?.blockReason,
+    blockReasonMessage: response.promptFeedback?.blockReasonMessage,
+    safetyRatings: ratings.length > 0
+      ? ratings.map(r => ({ category: r.category ?? '', probability: r.probability ?? '', blocked: r.blocked }))
+      : undefined,
+    modelVersion: response.modelVersion,
+  };
+};
+
+export const createGeminiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const request = async (parts: Part[], req: ProviderRequest): Promise<ProviderResult> => {
+  const ai = createGeminiClient();
+  const imageConfig: ImageConfig = {
+    aspectRatio: req.aspectRatio
+  };
+  if (req.imageSize) {
+    imageConfig.imageSize = req.imageSize;
+  }
+
+  const response = await ai.models.generateContent({
+    model: req.model,
+    contents: {
+      parts: [...parts, { text: req.prompt }],
+    },
+    config: {
+      imageConfig,
+      abortSignal: req.signal
+    }
+  });
+
+  const metadata = describeResponse(response);
+  const image = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+  if (image) return { image: `data:image/png;base64,${image.data}`, response: metadata };
+
+  // Không có ảnh: giữ lại lý do và đoạn text model trả về thay cho ảnh
+  const finishReason = metadata.blockReason ?? metadata.finishReason;
+  const modelText = metadata.text ?? metadata.blockReasonMessage ?? metadata.finishMessage;
+  if (finishReason && SAFETY_REASONS.includes(finishReason)) {
+    throw new GenerationError('safety', `Bị bộ lọc an toàn chặn (${finishReason}).`, { finishReason, modelText, response: metadata });
+  }
+  throw new GenerationError('malformed', "AI không trả về kết quả ảnh.", { finishReason, modelText, response: metadata });
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: {
+    normal: ['gemini-2.5-flash-image'],
+    pro: ['gemini-3-pro-image-preview'],
+  },
+  capabilities: {
+    aspectRatios: ASPECT_RATIOS,
+    imageSizes: IMAGE_SIZES,
+    normalImageSize: false,
+    edit: true,
+    mask: true,
+  },
+  generate: req => request(req.references.map(img => inlinePart(img.base64, img.mimeType)), req),
+  edit: req => request(req.mask ? [inlinePart(req.source), inlinePart(req.mask)] : [inlinePart(req.source)], req),
+  estimateCost: (model, imageSize) => {
+    const price = PRICING[model] ?? PRICING['gemini-3-pro-image-preview'];
+    return (imageSize && price[imageSize]) ?? price.default;
+  },
+};
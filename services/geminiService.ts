@@ -1,91 +1,84 @@
+import { ImageFile, GenerationSettings, UsageRecord } from "../types";
+import { DEFAULT_POD_PROMPT } from "./promptTemplateService";
+import { DEFAULT_PROVIDER_ID, effectiveImageSize, getImageProvider, ProviderResult, withProviderModels } from "./imageProvider";
+import { classifyGenerationError, GenerationError } from "./generationErrors";
 
-import { GoogleGenAI } from "@google/genai";
-import { ImageFile } from "../types";
+const defaultProvider = getImageProvider(DEFAULT_PROVIDER_ID);
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  provider: DEFAULT_PROVIDER_ID,
+  aspectRatio: "1:1",
+  imageSize: "2K",
+  normalModel: defaultProvider.models.normal[0],
+  proModel: defaultProvider.models.pro[0],
+};
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  settings?: Partial<GenerationSettings>;
+  // Mask trắng/đen cùng kích thước với sourceImageBase64: chỉ sửa vùng trắng
+  mask?: string;
+  // Gọi sau mỗi lượt (kể cả lỗi) để ghi nhận chi phí
+  onUsage?: (usage: GenerationUsage) => void;
+}
+
+export type GenerationUsage = Pick<UsageRecord, 'provider' | 'model' | 'imageSize' | 'outcome' | 'latencyMs' | 'cost'>;
+
+export const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError' || error?.cause?.name === 'AbortError';
 
 export const generatePodImage = async (
   images: (ImageFile | null)[], 
   customPrompt?: string, 
   sourceImageBase64?: string,
-  isPro: boolean = true
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Model mapping theo yêu cầu
-  const model = isPro ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
-  
-  let parts: any[] = [];
+  isPro: boolean = true,
+  options: GenerateOptions = {}
+): Promise<ProviderResult> => {
+  options.signal?.throwIfAborted();
+  const settings = withProviderModels({ ...DEFAULT_GENERATION_SETTINGS, ...options.settings });
+  const provider = getImageProvider(settings.provider);
+  const { capabilities } = provider;
 
-  if (sourceImageBase64) {
-    parts.push({
-      inlineData: {
-        data: sourceImageBase64.split(',')[1],
-        mimeType: 'image/png',
-      },
-    });
-  } else {
-    // Lọc bỏ các slot không có ảnh
-    const validImages = images.filter((img): img is ImageFile => !!img);
-    
-    parts = validImages.map(img => ({
-      inlineData: {
-        data: img.base64.split(',')[1],
-        mimeType: img.file.type || 'image/png',
-      },
-    }));
+  if (sourceImageBase64 && (!capabilities.edit || (options.mask && !capabilities.mask))) {
+    throw new GenerationError('unknown', `${provider.label} không hỗ trợ ${options.mask ? 'sửa theo mask' : 'chỉnh sửa ảnh'}.`);
   }
 
-  const defaultPrompt = `
-    Nhiệm vụ: Bạn là một nhà thiết kế Graphic Design chuyên nghiệp cho thị trường Print on Demand (POD).
-    Hãy phân tích các mẫu thiết kế và tạo ra một TÁC PHẨM NGHỆ THUẬT (WORKART) mới, độc bản.
-    
-    YÊU CẦU KỸ THUẬT QUAN TRỌNG:
-    - NỀN ĐEN TUYỆT ĐỐI (#000000) - Điều này cực kỳ quan trọng để người dùng dễ dàng lọc màu đen (knockout black).
-    - KHÔNG Mockup, KHÔNG có người mẫu, KHÔNG có vật dụng trưng bày.
-    - Chỉ tập trung vào ASSET ĐỒ HỌA 2D hoặc ILLUSTRATION sạch sẽ.
-    - Đường nét (Outlines) phải cực kỳ sắc nét, rõ ràng, phân tách hoàn toàn với nền đen.
-    - Sử dụng các màu sắc rực rỡ, độ tương phản cực cao so với nền đen để họa tiết nổi bật hoàn toàn.
-    - Độ chi tiết cao (High-detail), phong cách Digital Art chuyên nghiệp cho áo thun, cốc, mũ.
-  `;
-
-  const finalPrompt = sourceImageBase64 
+  const finalPrompt = sourceImageBase64 && options.mask
+    ? `Ảnh thứ nhất là một vùng cắt từ thiết kế POD, ảnh thứ hai là mask (trắng = vùng cần sửa, đen = giữ nguyên). Chỉ chỉnh sửa vùng trắng theo yêu cầu: ${customPrompt}. Giữ nguyên bố cục, màu nền, ánh sáng và mọi chi tiết ngoài mask để phần sửa ghép liền mạch với ảnh gốc. Trả về ảnh cùng khung hình với ảnh thứ nhất.`
+    : sourceImageBase64
     ? `Dựa trên thiết kế này, hãy tinh chỉnh: ${customPrompt}. Giữ đúng phong cách POD artwork, NỀN ĐEN 100%, họa tiết sắc nét để tách nền dễ dàng, độ phân giải cực cao.`
-    : (customPrompt || defaultPrompt);
-
-  try {
-    const imageConfig: any = {
-      aspectRatio: "1:1"
-    };
-    
-    if (isPro) {
-      imageConfig.imageSize = "2K";
-    }
+    : (customPrompt || DEFAULT_POD_PROMPT);
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [...parts, { text: finalPrompt }],
-      },
-      config: {
-        imageConfig
-      }
-    });
+  const request = {
+    model: isPro ? settings.proModel : settings.normalModel,
+    prompt: finalPrompt,
+    aspectRatio: settings.aspectRatio,
+    imageSize: effectiveImageSize(provider, settings, isPro),
+    signal: options.signal,
+  };
 
-    let base64Image = "";
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          base64Image = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
+  const startedAt = Date.now();
+  const report = (outcome: GenerationUsage['outcome']) => options.onUsage?.({
+    provider: provider.id,
+    model: request.model,
+    imageSize: request.imageSize,
+    outcome,
+    latencyMs: Date.now() - startedAt,
+    cost: outcome === 'success' ? provider.estimateCost(request.model, request.imageSize) : 0,
+  });
 
-    if (!base64Image) throw new Error("AI không trả về kết quả ảnh.");
-    return base64Image;
+  try {
+    const result = sourceImageBase64
+      ? await provider.edit({ ...request, source: sourceImageBase64, mask: options.mask })
+      // Lọc bỏ các slot không có ảnh
+      : await provider.generate({ ...request, references: images.filter((img): img is ImageFile => !!img) });
+    report('success');
+    return result;
   } catch (error: any) {
-    if (error.message.includes("Requested entity was not found")) {
-      throw new Error("PRO_KEY_REQUIRED: Vui lòng kết nối API Key trả phí để sử dụng model Pro.");
-    }
-    throw new Error("Lỗi Generation: " + error.message);
+    const cancelled = options.signal?.aborted || isAbortError(error);
+    report(cancelled ? 'cancelled' : 'error');
+    if (cancelled) throw error;
+    // Phân loại để queue biết có nên retry và UI hiện đúng hướng xử lý
+    throw classifyGenerationError(error);
   }
 };
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { classifyGenerationError, GenerationError, toGenerationFailure } from './generationErrors';
+
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('classifyGenerationError', () => {
+  it('ưu tiên status số hơn nội dung message', () => {
+    expect(classifyGenerationError(httpError(429, 'API key quota exceeded')).kind).toBe('quota');
+    expect(classifyGenerationError(httpError(503, 'PERMISSION_DENIED upstream')).kind).toBe('network');
+    expect(classifyGenerationError(httpError(400, 'rate limit in prompt text')).kind).toBe('unknown');
+  });
+
+  it('vẫn nhận lỗi key ở các status 4xx khác để mở Connect Key', () => {
+    expect(classifyGenerationError(httpError(404, 'Requested entity was not found.')).kind).toBe('auth');
+    expect(classifyGenerationError(httpError(400, 'API key not valid. Please pass a valid API key. [API_KEY_INVALID]')).kind).toBe('auth');
+    expect(classifyGenerationError(httpError(400, 'Invalid aspect ratio')).kind).toBe('unknown');
+  });
+
+  it('đọc status từ cause', () => {
+    const error = new Error('wrapped', { cause: { status: 403 } });
+    expect(classifyGenerationError(error).status).toBe(403);
+    expect(classifyGenerationError(error).kind).toBe('auth');
+  });
+
+  it('chỉ dùng regex khi không có status', () => {
+    expect(classifyGenerationError(new Error('RESOURCE_EXHAUSTED')).kind).toBe('quota');
+    expect(classifyGenerationError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(classifyGenerationError('API_KEY_INVALID').kind).toBe('auth');
+    expect(classifyGenerationError(undefined).kind).toBe('unknown');
+  });
+
+  it('giữ nguyên GenerationError đã phân loại', () => {
+    const error = new GenerationError('safety', 'blocked', { finishReason: 'SAFETY' });
+    expect(classifyGenerationError(error)).toBe(error);
+    expect(toGenerationFailure(error)).toEqual({ kind: 'safety', message: 'blocked', finishReason: 'SAFETY', modelText: undefined, response: undefined });
+  });
+});
+
+describe('toGenerationFailure', () => {
+  it('giữ metadata response của lần bị từ chối', () => {
+    const response = { finishReason: 'IMAGE_SAFETY', text: 'Không thể tạo ảnh này.', modelVersion: 'gemini-test' };
+    const error = new GenerationError('safety', 'blocked', { finishReason: 'IMAGE_SAFETY', response });
+    expect(toGenerationFailure(error).response).toEqual(response);
+  });
+});
@@ -0,0 +1,78 @@
+import { GenerationErrorKind, GenerationFailure, ResponseMetadata } from "../types";
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  status?: number;
+  finishReason?: string;
+  modelText?: string;
+  response?: ResponseMetadata;
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    details: { status?: number; finishReason?: string; modelText?: string; response?: ResponseMetadata; cause?: unknown } = {}
+  ) {
+    super(message, { cause: details.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = details.status;
+    this.finishReason = details.finishReason;
+    this.modelText = details.modelText;
+    this.response = details.response;
+  }
+}
+
+export const ERROR_GUIDES: Record<GenerationErrorKind, { label: string; action: string }> = {
+  auth: { label: 'API key', action: 'Kết nối API key (key trả phí cho model Pro) rồi thử lại.' },
+  quota: { label: 'Hết quota', action: 'Đợi quota hồi lại hoặc giảm RPM của queue, sau đó Retry failed.' },
+  safety: { label: 'Bị chặn an toàn', action: 'Sửa prompt hoặc đổi ảnh reference (tránh nhân vật, thương hiệu, nội dung nhạy cảm).' },
+  network: { label: 'Lỗi mạng', action: 'Kiểm tra kết nối rồi Retry failed.' },
+  malformed: { label: 'Không có ảnh', action: 'Model trả về phản hồi không có ảnh; thử lại hoặc làm rõ prompt.' },
+  unknown: { label: 'Lỗi', action: 'Thử lại; nếu vẫn lỗi hãy kiểm tra chi tiết bên dưới.' },
+};
+
+// Finish/block reason của Gemini nghĩa là nội dung bị bộ lọc chặn
+export const SAFETY_REASONS = [
+  'SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION',
+  'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'MODEL_ARMOR',
+];
+
+const AUTH_PATTERN = /\b(401|403)\b|API[ _]KEY|UNAUTHENTICATED|PERMISSION_DENIED|Requested entity was not found/i;
+const QUOTA_PATTERN = /\b429\b|RESOURCE_EXHAUSTED|quota|rate limit/i;
+const NETWORK_PATTERN = /\b(500|502|503|504)\b|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|Failed to fetch|NetworkError|network|timed? ?out/i;
+
+const field = (value: unknown, key: 'status' | 'message' | 'cause'): unknown =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = field(error, 'status') ?? field(field(error, 'cause'), 'status');
+  return typeof status === 'number' ? status : undefined;
+};
+
+// Có HTTP status thì tin status; regex trên message chỉ dùng khi không có status (lỗi fetch, lỗi SDK bọc lại).
+// Riêng 4xx khác: SDK trả 400 API_KEY_INVALID và 404 "Requested entity was not found" khi key sai/không có quyền model Pro
+const kindFromStatus = (status: number, message: string): GenerationErrorKind =>
+  status === 401 || status === 403 ? 'auth'
+  : status === 429 ? 'quota'
+  : status >= 500 ? 'network'
+  : status >= 400 && AUTH_PATTERN.test(message) ? 'auth'
+  : 'unknown';
+
+const kindFromMessage = (message: string): GenerationErrorKind =>
+  AUTH_PATTERN.test(message) ? 'auth'
+  : QUOTA_PATTERN.test(message) ? 'quota'
+  : NETWORK_PATTERN.test(message) ? 'network'
+  : 'unknown';
+
+export const classifyGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = String(field(error, 'message') ?? error);
+  const status = statusOf(error);
+  const kind = status !== undefined ? kindFromStatus(status, message) : kindFromMessage(message);
+  return new GenerationError(kind, message, { status, cause: error });
+};
+
+export const toGenerationFailure = (error: unknown): GenerationFailure => {
+  const { kind, message, finishReason, modelText, response } = classifyGenerationError(error);
+  return { kind, message, finishReason, modelText, response };
+};
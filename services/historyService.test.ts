@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { BatchItem } from '../types';
+import { appendResult, clearHeads, getHeadId, getLineage, getSlotVersions, MAX_VERSIONS_PER_SLOT, restoreVersion, setSlotImage } from './historyService';
+
+const meta = { kind: 'edit' as const, prompt: '', model: '', references: [] };
+
+const emptyBatch = (): BatchItem => ({ id: 'b', name: 'Batch', images: [], status: 'idle', resultsNormal: [], resultsPro: [] });
+
+describe('setSlotImage', () => {
+  it('giới hạn số version mỗi slot và giữ lineage liền mạch', () => {
+    let batch = appendResult(emptyBatch(), 'normal', 'img-0', { ...meta, kind: 'generate' });
+    for (let i = 1; i <= MAX_VERSIONS_PER_SLOT + 5; i++) batch = setSlotImage(batch, 'normal', 0, `img-${i}`, meta);
+
+    expect(batch.versions).toHaveLength(MAX_VERSIONS_PER_SLOT);
+    const head = getHeadId(batch, 'normal', 0)!;
+    expect(batch.versions!.find(v => v.id === head)?.image).toBe(`img-${MAX_VERSIONS_PER_SLOT + 5}`);
+    expect(getLineage(batch, head)).toHaveLength(MAX_VERSIONS_PER_SLOT);
+  });
+});
+
+describe('appendResult', () => {
+  it('chạy lại giữ version của lượt trước để restore được', () => {
+    let batch = appendResult(emptyBatch(), 'normal', 'run-1', { ...meta, kind: 'generate' });
+    const first = getHeadId(batch, 'normal', 0)!;
+    batch = { ...batch, resultsNormal: [], heads: clearHeads(batch, 'normal') };
+    batch = appendResult(batch, 'normal', 'run-2', { ...meta, kind: 'generate' });
+
+    expect(getSlotVersions(batch, 'normal', 0).map(v => v.image)).toEqual(['run-1', 'run-2']);
+    expect(restoreVersion(batch, first).resultsNormal).toEqual(['run-1']);
+  });
+
+  it('giới hạn version của slot qua nhiều lượt chạy lại', () => {
+    let batch = emptyBatch();
+    for (let run = 0; run < MAX_VERSIONS_PER_SLOT + 3; run++) {
+      batch = { ...batch, resultsNormal: [], heads: clearHeads(batch, 'normal') };
+      batch = appendResult(batch, 'normal', `run-${run}`, { ...meta, kind: 'generate' });
+    }
+    expect(getSlotVersions(batch, 'normal', 0)).toHaveLength(MAX_VERSIONS_PER_SLOT);
+    expect(batch.resultsNormal).toEqual([`run-${MAX_VERSIONS_PER_SLOT + 2}`]);
+  });
+});
@@ -0,0 +1,168 @@
+import { BatchItem, ImageFile, ResultVersion } from "../types";
+
+export type ResultMode = 'normal' | 'pro';
+
+export interface ResultRef {
+  batchId: string;
+  mode: ResultMode;
+  slot: number;
+}
+
+export type VersionMeta = Pick<ResultVersion, 'kind' | 'prompt' | 'model' | 'references' | 'response'>;
+
+export const resultsKey = (mode: ResultMode) => mode === 'pro' ? 'resultsPro' : 'resultsNormal';
+
+export const slotKey = (mode: ResultMode, slot: number) => `${mode}:${slot}`;
+
+export const getHeadId = (batch: BatchItem, mode: ResultMode, slot: number) =>
+  batch.heads?.[slotKey(mode, slot)] ?? null;
+
+export const getSlotVersions = (batch: BatchItem, mode: ResultMode, slot: number) =>
+  (batch.versions ?? []).filter(v => v.mode === mode && v.slot === slot);
+
+const newVersion = (mode: ResultMode, slot: number, image: string, parentId: string | null, meta: VersionMeta): ResultVersion => ({
+  id: Math.random().toString(36).substr(2, 9),
+  parentId,
+  mode,
+  slot,
+  image,
+  createdAt: Date.now(),
+  ...meta,
+});
+
+// Mỗi version giữ nguyên ảnh base64 nên giới hạn số version của một slot
+export const MAX_VERSIONS_PER_SLOT = 20;
+
+// Bỏ các version cũ nhất của slot (trừ head); version con được nối lên tổ tiên còn lại
+const pruneSlotVersions = (versions: ResultVersion[], mode: ResultMode, slot: number, headId: string): ResultVersion[] => {
+  const slotVersions = versions.filter(v => v.mode === mode && v.slot === slot);
+  const excess = slotVersions.length - MAX_VERSIONS_PER_SLOT;
+  if (excess <= 0) return versions;
+  const removed = new Map(slotVersions.filter(v => v.id !== headId).slice(0, excess).map(v => [v.id, v]));
+  const survivingParent = (id: string | null) => {
+    while (id && removed.has(id)) id = removed.get(id)!.parentId;
+    return id;
+  };
+  return versions
+    .filter(v => !removed.has(v.id))
+    .map(v => v.parentId && removed.has(v.parentId) ? { ...v, parentId: survivingParent(v.parentId) } : v);
+};
+
+const withHead = (batch: BatchItem, mode: ResultMode, slot: number, versionId: string) => ({
+  ...batch.heads,
+  [slotKey(mode, slot)]: versionId,
+});
+
+// Kết quả mới từ một lượt generate: thêm slot mới, version gốc (không có parent).
+// Chạy lại cả batch thì slot cũ giữ version của các lượt trước nên vẫn phải cắt theo giới hạn
+export const appendResult = (batch: BatchItem, mode: ResultMode, image: string, meta: VersionMeta): BatchItem => {
+  const key = resultsKey(mode);
+  const slot = batch[key].length;
+  const version = newVersion(mode, slot, image, null, meta);
+  return {
+    ...batch,
+    [key]: [...batch[key], image],
+    versions: pruneSlotVersions([...(batch.versions ?? []), version], mode, slot, version.id),
+    heads: withHead(batch, mode, slot, version.id),
+  };
+};
+
+// Ghi đè ảnh của một slot. Nếu ảnh trùng một version đã có (undo/redo) thì chỉ chuyển head,
+// ngược lại tạo version con của head hiện tại.
+export const setSlotImage = (batch: BatchItem, mode: ResultMode, slot: number, image: string, meta: VersionMeta): BatchItem => {
+  const key = resultsKey(mode);
+  if (slot >= batch[key].length) return batch;
+  const existing = getSlotVersions(batch, mode, slot).find(v => v.image.length === image.length && v.image === image);
+  const results = batch[key].map((r, i) => i === slot ? image : r);
+  if (existing) {
+    return { ...batch, [key]: results, heads: withHead(batch, mode, slot, existing.id) };
+  }
+  const version = newVersion(mode, slot, image, getHeadId(batch, mode, slot), meta);
+  return {
+    ...batch,
+    [key]: results,
+    versions: pruneSlotVersions([...(batch.versions ?? []), version], mode, slot, version.id),
+    heads: withHead(batch, mode, slot, version.id),
+  };
+};
+
+export const restoreVersion = (batch: BatchItem, versionId: string): BatchItem => {
+  const version = batch.versions?.find(v => v.id === versionId);
+  if (!version) return batch;
+  const key = resultsKey(version.mode);
+  if (version.slot >= batch[key].length) return batch;
+  return {
+    ...batch,
+    [key]: batch[key].map((r, i) => i === version.slot ? version.image : r),
+    heads: withHead(batch, version.mode, version.slot, version.id),
+  };
+};
+
+// Tách một version ra slot mới để chỉnh tiếp mà vẫn giữ nguyên slot cũ
+export const branchVersion = (batch: BatchItem, versionId: string): BatchItem => {
+  const source = batch.versions?.find(v => v.id === versionId);
+  if (!source) return batch;
+  const key = resultsKey(source.mode);
+  const slot = batch[key].length;
+  const version = newVersion(source.mode, slot, source.image, source.id, {
+    kind: 'branch',
+    prompt: source.prompt,
+    model: source.model,
+    references: source.references,
+  });
+  return {
+    ...batch,
+    [key]: [...batch[key], source.image],
+    versions: [...(batch.versions ?? []), version],
+    heads: withHead(batch, source.mode, slot, version.id),
+  };
+};
+
+// Xóa head của một mode khi bắt đầu lượt generate mới; version của các lượt trước vẫn giữ để restore/branch
+export const clearHeads = (batch: BatchItem, mode: ResultMode): Record<string, string> =>
+  Object.fromEntries(Object.entries(batch.heads ?? {}).filter(([k]) => !k.startsWith(`${mode}:`)));
+
+export const getLineage = (batch: BatchItem, versionId: string): ResultVersion[] => {
+  const byId = new Map((batch.versions ?? []).map(v => [v.id, v]));
+  const chain: ResultVersion[] = [];
+  let current = byId.get(versionId);
+  while (current) {
+    chain.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+};
+
+// Adjust/upscale không gọi model nên lấy version gần nhất trong lineage có response
+export const getResponseVersion = (batch: BatchItem, mode: ResultMode, slot: number): ResultVersion | undefined => {
+  const headId = getHeadId(batch, mode, slot);
+  if (!headId) return undefined;
+  const lineage = getLineage(batch, headId);
+  return [...lineage].reverse().find(v => v.response) ?? lineage[lineage.length - 1];
+};
+
+// Sắp xếp version theo cây (cha trước con) kèm độ sâu để hiển thị thụt lề
+export const flattenVersionTree = (versions: ResultVersion[]): { version: ResultVersion; depth: number }[] => {
+  const ids = new Set(versions.map(v => v.id));
+  const children = new Map<string | null, ResultVersion[]>();
+  versions.forEach(v => {
+    const parent = v.parentId && ids.has(v.parentId) ? v.parentId : null;
+    children.set(parent, [...(children.get(parent) ?? []), v]);
+  });
+  const out: { version: ResultVersion; depth: number }[] = [];
+  const walk = (parent: string | null, depth: number) => {
+    (children.get(parent) ?? [])
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach(v => {
+        out.push({ version: v, depth });
+        walk(v.id, depth + 1);
+      });
+  };
+  walk(null, 0);
+  return out;
+};
+
+export const describeReferences = (images: (ImageFile | null)[]): string[] =>
+  images
+    .filter((img): img is ImageFile => !!img)
+    .map(img => img.preview.startsWith('http') ? img.preview : (img.file?.name || 'local file'));
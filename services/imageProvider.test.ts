@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GENERATION_SETTINGS } from './geminiService';
+import { withProviderModels } from './imageProvider';
+
+describe('withProviderModels', () => {
+  it('thay model không thuộc provider bằng model mặc định của provider đó', () => {
+    const settings = withProviderModels({ ...DEFAULT_GENERATION_SETTINGS, provider: 'mock' });
+    expect(settings).toMatchObject({ provider: 'mock', normalModel: 'mock-fast', proModel: 'mock-pro' });
+  });
+
+  it('giữ model hợp lệ của batch', () => {
+    const settings = { ...DEFAULT_GENERATION_SETTINGS, provider: 'mock', normalModel: 'mock-fast', proModel: 'mock-pro' };
+    expect(withProviderModels(settings)).toEqual(settings);
+  });
+
+  it('provider không còn tồn tại thì quay về Gemini', () => {
+    const settings = withProviderModels({ ...DEFAULT_GENERATION_SETTINGS, provider: 'removed', normalModel: 'x', proModel: 'y' });
+    expect(settings).toMatchObject({ provider: 'gemini', normalModel: 'gemini-2.5-flash-image', proModel: 'gemini-3-pro-image-preview' });
+  });
+});
@@ -0,0 +1,68 @@
+import { GenerationSettings, ImageFile, ImageSize, ResponseMetadata } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+export interface ProviderCapabilities {
+  aspectRatios: string[];
+  imageSizes: ImageSize[];
+  // Model thường có chọn được imageSize không (Gemini: chỉ Pro)
+  normalImageSize: boolean;
+  edit: boolean;
+  mask: boolean;
+}
+
+export interface ProviderRequest {
+  model: string;
+  prompt: string;
+  aspectRatio: string;
+  // undefined = để model tự chọn
+  imageSize?: ImageSize;
+  signal?: AbortSignal;
+}
+
+export interface GenerateRequest extends ProviderRequest {
+  references: ImageFile[];
+}
+
+export interface EditRequest extends ProviderRequest {
+  source: string;
+  // Mask trắng/đen cùng kích thước với source: chỉ sửa vùng trắng
+  mask?: string;
+}
+
+export interface ProviderResult {
+  image: string;
+  response?: ResponseMetadata;
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  models: { normal: string[]; pro: string[] };
+  capabilities: ProviderCapabilities;
+  generate: (request: GenerateRequest) => Promise<ProviderResult>;
+  edit: (request: EditRequest) => Promise<ProviderResult>;
+  // USD cho mỗi ảnh, ước tính theo bảng giá công bố
+  estimateCost: (model: string, imageSize?: ImageSize) => number;
+}
+
+export const IMAGE_PROVIDERS: ImageProvider[] = [geminiProvider, mockProvider];
+
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+export const getImageProvider = (id: string | undefined) =>
+  IMAGE_PROVIDERS.find(p => p.id === id) ?? geminiProvider;
+
+// Override của batch có thể giữ model của provider cũ (đổi provider mặc định sau khi chỉnh batch): quay về model đầu tiên
+export const withProviderModels = (settings: GenerationSettings): GenerationSettings => {
+  const provider = getImageProvider(settings.provider);
+  return {
+    ...settings,
+    provider: provider.id,
+    normalModel: provider.models.normal.includes(settings.normalModel) ? settings.normalModel : provider.models.normal[0],
+    proModel: provider.models.pro.includes(settings.proModel) ? settings.proModel : provider.models.pro[0],
+  };
+};
+
+export const effectiveImageSize = (provider: ImageProvider, settings: GenerationSettings, isPro: boolean): ImageSize | undefined =>
+  isPro || provider.capabilities.normalImageSize ? settings.imageSize : undefined;
@@ -0,0 +1,26 @@
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Không thể tải ảnh."));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Trình duyệt không hỗ trợ Canvas 2D.");
+  return { canvas, ctx };
+};
+
+export const imageToCanvas = (img: HTMLImageElement) => {
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  return { canvas, ctx };
+};
+
+export const dataUrlToBase64 = (dataUrl: string) => dataUrl.split(',')[1];
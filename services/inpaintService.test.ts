@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { fitRegionToAspect } from './inpaintService';
+
+const ratioOf = (aspectRatio: string) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w / h;
+};
+
+describe('fitRegionToAspect', () => {
+  it('giữ đúng tỉ lệ khi mask nằm sát mép ảnh', () => {
+    const { region, aspectRatio } = fitRegionToAspect({ x: 0, y: 400, width: 900, height: 100 }, 1000, 1000);
+    expect(region.x).toBeGreaterThanOrEqual(0);
+    expect(region.x + region.width).toBeLessThanOrEqual(1000);
+    expect(region.y + region.height).toBeLessThanOrEqual(1000);
+    expect(region.width / region.height).toBeCloseTo(ratioOf(aspectRatio), 1);
+  });
+
+  it('khung vẫn phủ hết vùng mask', () => {
+    const bounds = { x: 950, y: 950, width: 40, height: 40 };
+    const { region } = fitRegionToAspect(bounds, 1000, 1000);
+    expect(region.x).toBeLessThanOrEqual(bounds.x);
+    expect(region.y).toBeLessThanOrEqual(bounds.y);
+    expect(region.x + region.width).toBeGreaterThanOrEqual(bounds.x + bounds.width);
+    expect(region.y + region.height).toBeGreaterThanOrEqual(bounds.y + bounds.height);
+  });
+
+  it('mask gần phủ kín ảnh vẫn cho khung đúng tỉ lệ', () => {
+    const { region, aspectRatio } = fitRegionToAspect({ x: 0, y: 0, width: 1000, height: 640 }, 1000, 640);
+    expect(region.width).toBeLessThanOrEqual(1000);
+    expect(region.height).toBeLessThanOrEqual(640);
+    expect(region.width / region.height).toBeCloseTo(ratioOf(aspectRatio), 1);
+  });
+});
@@ -0,0 +1,136 @@
+import { loadImage, createCanvas } from "./imageUtils";
+import { ASPECT_RATIOS } from "./geminiProvider";
+
+export interface InpaintRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface InpaintInput {
+  crop: string;
+  mask: string;
+  region: InpaintRegion;
+  aspectRatio: string;
+}
+
+// Lấy thêm một phần ngữ cảnh quanh vùng mask để model vẽ khớp với phần xung quanh
+const CONTEXT_PADDING = 0.25;
+const MIN_PADDING_PX = 32;
+
+export const DEFAULT_MASK_FEATHER = 8;
+
+export const findMaskBounds = (mask: { width: number; height: number; data: Uint8ClampedArray }): InpaintRegion | null => {
+  const { width, height, data } = mask;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const ratioValue = (ratio: string) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+// Khung lớn nhất theo tỉ lệ target chứa được (width, height) mà không vượt quá ảnh
+const fitBox = (width: number, height: number, target: number, imageWidth: number, imageHeight: number) => {
+  let w = width / height < target ? height * target : width;
+  let h = w / target;
+  const scale = Math.min(1, imageWidth / w, imageHeight / h);
+  w *= scale;
+  h *= scale;
+  return { width: w, height: h };
+};
+
+// Nới vùng cắt theo tỉ lệ khung hình gần nhất mà model hỗ trợ để ảnh trả về không bị méo khi ghép lại.
+// Chỉ chọn tỉ lệ mà khung vẫn nằm gọn trong ảnh và còn phủ hết vùng mask.
+export const fitRegionToAspect = (bounds: InpaintRegion, imageWidth: number, imageHeight: number): { region: InpaintRegion; aspectRatio: string } => {
+  const pad = Math.max(MIN_PADDING_PX, Math.round(Math.max(bounds.width, bounds.height) * CONTEXT_PADDING));
+  const width = bounds.width + pad * 2;
+  const height = bounds.height + pad * 2;
+
+  const distance = (ratio: string, to: number) => Math.abs(Math.log(ratioValue(ratio)) - Math.log(to));
+  const byDistance = (to: number) => [...ASPECT_RATIOS].sort((a, b) => distance(a, to) - distance(b, to));
+  const covering = byDistance(width / height).find(r => {
+    const box = fitBox(width, height, ratioValue(r), imageWidth, imageHeight);
+    return box.width >= bounds.width && box.height >= bounds.height;
+  });
+  // Mask gần phủ kín ảnh với tỉ lệ lạ: lấy khung lớn nhất theo tỉ lệ gần với ảnh
+  const aspectRatio = covering ?? byDistance(imageWidth / imageHeight)[0];
+  const box = fitBox(width, height, ratioValue(aspectRatio), imageWidth, imageHeight);
+
+  const boxWidth = Math.min(imageWidth, Math.round(box.width));
+  const boxHeight = Math.min(imageHeight, Math.round(box.height));
+  // Dịch khung vào trong ảnh thay vì cắt bớt để giữ đúng tỉ lệ
+  const centerX = bounds.x + bounds.width / 2;
+  const centerY = bounds.y + bounds.height / 2;
+  const x = Math.round(Math.min(Math.max(0, centerX - boxWidth / 2), imageWidth - boxWidth));
+  const y = Math.round(Math.min(Math.max(0, centerY - boxHeight / 2), imageHeight - boxHeight));
+  return { region: { x, y, width: boxWidth, height: boxHeight }, aspectRatio };
+};
+
+const maskCanvas = async (mask: string, width: number, height: number) => {
+  const img = await loadImage(mask);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return { canvas, ctx };
+};
+
+export const prepareInpaint = async (image: string, mask: string): Promise<InpaintInput | null> => {
+  const img = await loadImage(image);
+  const { naturalWidth: width, naturalHeight: height } = img;
+  const { canvas: maskSource, ctx: maskCtx } = await maskCanvas(mask, width, height);
+  const bounds = findMaskBounds(maskCtx.getImageData(0, 0, width, height));
+  if (!bounds) return null;
+
+  const { region, aspectRatio } = fitRegionToAspect(bounds, width, height);
+
+  const { canvas: crop, ctx: cropCtx } = createCanvas(region.width, region.height);
+  cropCtx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+
+  // Mask gửi cho model: trắng = vùng cần sửa, đen = giữ nguyên
+  const { canvas: maskOut, ctx: maskOutCtx } = createCanvas(region.width, region.height);
+  maskOutCtx.drawImage(maskSource, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+  maskOutCtx.globalCompositeOperation = 'source-in';
+  maskOutCtx.fillStyle = '#fff';
+  maskOutCtx.fillRect(0, 0, region.width, region.height);
+  maskOutCtx.globalCompositeOperation = 'destination-over';
+  maskOutCtx.fillStyle = '#000';
+  maskOutCtx.fillRect(0, 0, region.width, region.height);
+
+  return {
+    crop: crop.toDataURL('image/png'),
+    mask: maskOut.toDataURL('image/png'),
+    region,
+    aspectRatio,
+  };
+};
+
+// Chỉ phần nằm trong mask (làm mềm viền) của ảnh model trả về được ghép đè lên ảnh gốc
+export const compositeInpaint = async (image: string, patch: string, mask: string, region: InpaintRegion, feather: number = DEFAULT_MASK_FEATHER): Promise<string> => {
+  const [img, patchImg] = await Promise.all([loadImage(image), loadImage(patch)]);
+  const { naturalWidth: width, naturalHeight: height } = img;
+  const { canvas: maskSource } = await maskCanvas(mask, width, height);
+
+  const { canvas: layer, ctx: layerCtx } = createCanvas(region.width, region.height);
+  layerCtx.imageSmoothingQuality = 'high';
+  layerCtx.drawImage(patchImg, 0, 0, region.width, region.height);
+  layerCtx.globalCompositeOperation = 'destination-in';
+  if (feather > 0) layerCtx.filter = `blur(${feather}px)`;
+  layerCtx.drawImage(maskSource, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0);
+  ctx.drawImage(layer, region.x, region.y);
+  return canvas.toDataURL('image/png');
+};
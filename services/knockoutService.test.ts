@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { knockoutImageData } from './knockoutService';
+
+// Node không có ImageData; knockoutImageData chỉ đọc width/height/data
+const fixture = (rows: number[][]) => {
+  const height = rows.length;
+  const width = rows[0].length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  rows.flat().forEach((level, i) => data.set([level, level, level, 255], i * 4));
+  return { width, height, data } as unknown as ImageData;
+};
+
+const pixel = (image: ImageData, x: number, y: number) => Array.from(image.data.slice((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+
+const options = { tolerance: 24, feather: 16 };
+
+describe('knockoutImageData', () => {
+  it('xóa nền đen nối với mép nhưng giữ vùng tối nằm trong outline', () => {
+    const out = knockoutImageData(fixture([
+      [0, 0, 0, 0, 0],
+      [0, 255, 255, 255, 0],
+      [0, 255, 0, 255, 0],
+      [0, 255, 255, 255, 0],
+      [0, 0, 0, 0, 0],
+    ]), options);
+    expect(pixel(out, 0, 0)[3]).toBe(0);
+    expect(pixel(out, 4, 2)[3]).toBe(0);
+    expect(pixel(out, 2, 2)).toEqual([0, 0, 0, 255]);
+    expect(pixel(out, 1, 1)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('pixel trong dải feather thành bán trong suốt và bỏ phần đen trong màu', () => {
+    const out = knockoutImageData(fixture([[0, 32, 255]]), options);
+    expect(pixel(out, 0, 0)[3]).toBe(0);
+    // (32 - 24) / 16 = 0.5: alpha còn một nửa, màu chia lại cho alpha
+    expect(pixel(out, 1, 0)).toEqual([64, 64, 64, 128]);
+    expect(pixel(out, 2, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('tolerance cao hơn xóa hẳn nền xám đậm thay vì làm mờ', () => {
+    expect(pixel(knockoutImageData(fixture([[30, 255]]), options), 0, 0)[3]).toBe(96);
+    expect(pixel(knockoutImageData(fixture([[30, 255]]), { tolerance: 40, feather: 16 }), 0, 0)[3]).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { loadImage, imageToCanvas } from "./imageUtils";
+
+export interface KnockoutOptions {
+  // Pixel có kênh sáng nhất <= tolerance được coi là nền đen và trong suốt hoàn toàn
+  tolerance: number;
+  // Dải chuyển tiếp (tính theo mức sáng) phía trên tolerance để làm mềm viền
+  feather: number;
+}
+
+export const DEFAULT_KNOCKOUT_OPTIONS: KnockoutOptions = {
+  tolerance: 24,
+  feather: 16,
+};
+
+// Flood fill từ mép ảnh: chỉ vùng tối nối liền với mép mới bị xóa,
+// vùng tối nằm trong outline của thiết kế được giữ nguyên.
+export const knockoutImageData = (imageData: ImageData, options: KnockoutOptions): ImageData => {
+  const { width, height, data } = imageData;
+  const hard = Math.max(0, options.tolerance);
+  const soft = hard + Math.max(0, options.feather);
+  const total = width * height;
+
+  const level = new Uint8Array(total);
+  for (let i = 0; i < total; i++) {
+    const o = i * 4;
+    level[i] = Math.max(data[o], data[o + 1], data[o + 2]);
+  }
+
+  const visited = new Uint8Array(total);
+  const stack = new Int32Array(total);
+  let top = 0;
+  const seed = (i: number) => {
+    if (!visited[i] && level[i] <= soft) {
+      visited[i] = 1;
+      stack[top++] = i;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+
+  while (top > 0) {
+    const i = stack[--top];
+    const x = i % width;
+    if (x > 0) seed(i - 1);
+    if (x < width - 1) seed(i + 1);
+    if (i >= width) seed(i - width);
+    if (i < total - width) seed(i + width);
+  }
+
+  for (let i = 0; i < total; i++) {
+    if (!visited[i]) continue;
+    const o = i * 4;
+    if (level[i] <= hard) {
+      data[o + 3] = 0;
+      continue;
+    }
+    const alpha = (level[i] - hard) / (soft - hard);
+    // Bỏ phần đen đã trộn vào màu viền để không bị quầng tối trên nền sáng
+    data[o] = Math.min(255, Math.round(data[o] / alpha));
+    data[o + 1] = Math.min(255, Math.round(data[o + 1] / alpha));
+    data[o + 2] = Math.min(255, Math.round(data[o + 2] / alpha));
+    data[o + 3] = Math.round(data[o + 3] * alpha);
+  }
+
+  return imageData;
+};
+
+export const knockoutBlack = async (src: string, options: KnockoutOptions = DEFAULT_KNOCKOUT_OPTIONS): Promise<string> => {
+  const img = await loadImage(src);
+  const { canvas, ctx } = imageToCanvas(img);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  ctx.putImageData(knockoutImageData(imageData, options), 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { BatchItem } from '../types';
+import { appendResult, restoreVersion, setSlotImage } from './historyService';
+import { countListings, emptyListing, getListing, setListing } from './listingService';
+
+const meta = { kind: 'generate' as const, prompt: '', model: '', references: [] };
+
+const batchWithResult = (): BatchItem =>
+  appendResult({ id: 'b', name: 'Batch', images: [], status: 'completed', resultsNormal: [], resultsPro: [] }, 'normal', 'img-0', meta);
+
+describe('getListing', () => {
+  it('ẩn listing khi slot đổi sang ảnh khác', () => {
+    let batch = setListing(batchWithResult(), 'normal', 0, { ...emptyListing(), title: 'First' });
+    const original = batch.versions![0].id;
+    expect(getListing(batch, 'normal', 0)?.title).toBe('First');
+
+    batch = setSlotImage(batch, 'normal', 0, 'img-1', { ...meta, kind: 'edit' });
+    expect(getListing(batch, 'normal', 0)).toBeUndefined();
+    expect(countListings(batch)).toBe(0);
+
+    batch = restoreVersion(batch, original);
+    expect(getListing(batch, 'normal', 0)?.title).toBe('First');
+  });
+
+  it('gắn listing với version của ảnh đã gửi cho model', () => {
+    const batch = batchWithResult();
+    const sent = batch.versions![0].id;
+    const edited = setSlotImage(batch, 'normal', 0, 'img-1', { ...meta, kind: 'edit' });
+    const stamped = setListing(edited, 'normal', 0, emptyListing(), sent);
+    expect(getListing(stamped, 'normal', 0)).toBeUndefined();
+    expect(getListing(restoreVersion(stamped, sent), 'normal', 0)?.versionId).toBe(sent);
+  });
+});
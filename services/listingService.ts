@@ -0,0 +1,203 @@
+import { Type } from "@google/genai";
+import { BatchItem, ListingMetadata } from "../types";
+import { GenerationUsage } from "./geminiService";
+import { createGeminiClient } from "./geminiProvider";
+import { classifyGenerationError } from "./generationErrors";
+import { getHeadId, ResultMode, resultsKey, slotKey } from "./historyService";
+import { mimeFromDataUrl } from "./referenceImages";
+import { getPick } from "./reviewService";
+import { toCSV } from "./csvParser";
+
+export const LISTING_MODEL = 'gemini-2.5-flash';
+
+// Giới hạn ký tự của Merch on Demand; tags là search terms (tối đa 250 byte phía Amazon)
+export const LISTING_LIMITS = {
+  brand: { min: 3, max: 50 },
+  title: { min: 3, max: 60 },
+  bullet: { min: 0, max: 256 },
+  description: { min: 75, max: 2000 },
+  tags: { min: 0, max: 250 },
+};
+
+// USD / 1M token cho model text
+const INPUT_PRICE = 0.3;
+const OUTPUT_PRICE = 2.5;
+
+const LISTING_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    brand: { type: Type.STRING },
+    title: { type: Type.STRING },
+    bullets: { type: Type.ARRAY, items: { type: Type.STRING } },
+    description: { type: Type.STRING },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['brand', 'title', 'bullets', 'description', 'tags'],
+};
+
+export const emptyListing = (): ListingMetadata => ({
+  brand: '',
+  title: '',
+  bullets: ['', ''],
+  description: '',
+  tags: [],
+  updatedAt: Date.now(),
+});
+
+// Cắt ở ranh giới từ để không để lại nửa chữ
+export const truncateText = (text: string, max: number) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= max) return clean;
+  const cut = clean.slice(0, max + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > max * 0.6 ? cut.slice(0, lastSpace) : clean.slice(0, max)).replace(/[\s,;:.-]+$/, '');
+};
+
+export const joinTags = (tags: string[]) => tags.join(', ');
+
+// Ô tags cho phép gõ dở (phần tử rỗng, khoảng trắng cuối); chỉ dọn khi export
+const cleanTags = (tags: string[]) => tags.map(t => t.trim()).filter(Boolean);
+
+export const fitTags = (tags: string[]) => {
+  const out: string[] = [];
+  for (const tag of tags.map(t => t.trim()).filter(Boolean)) {
+    if (out.some(t => t.toLowerCase() === tag.toLowerCase())) continue;
+    if (joinTags([...out, tag]).length <= LISTING_LIMITS.tags.max) out.push(tag);
+  }
+  return out;
+};
+
+export const clampListing = (raw: Partial<ListingMetadata> & { bullets?: string[] }): ListingMetadata => ({
+  brand: truncateText(raw.brand ?? '', LISTING_LIMITS.brand.max),
+  title: truncateText(raw.title ?? '', LISTING_LIMITS.title.max),
+  bullets: [0, 1].map(i => truncateText(raw.bullets?.[i] ?? '', LISTING_LIMITS.bullet.max)) as [string, string],
+  description: truncateText(raw.description ?? '', LISTING_LIMITS.description.max),
+  tags: fitTags(raw.tags ?? []),
+  updatedAt: Date.now(),
+});
+
+export const listingIssues = (listing: ListingMetadata): string[] => {
+  const issues: string[] = [];
+  const check = (label: string, value: string, limit: { min: number; max: number }) => {
+    if (value.length > limit.max) issues.push(`${label} dài quá ${limit.max} ký tự`);
+    else if (value.length < limit.min) issues.push(`${label} cần ít nhất ${limit.min} ký tự`);
+  };
+  check('Brand', listing.brand, LISTING_LIMITS.brand);
+  check('Title', listing.title, LISTING_LIMITS.title);
+  listing.bullets.forEach((b, i) => check(`Bullet ${i + 1}`, b, LISTING_LIMITS.bullet));
+  check('Description', listing.description, LISTING_LIMITS.description);
+  check('Tags', joinTags(cleanTags(listing.tags)), LISTING_LIMITS.tags);
+  return issues;
+};
+
+export interface ListingRequest {
+  image: string;
+  name: string;
+  tags?: string[];
+  prompt?: string;
+  signal?: AbortSignal;
+  onUsage?: (usage: GenerationUsage) => void;
+}
+
+export const generateListing = async (req: ListingRequest): Promise<ListingMetadata> => {
+  const ai = createGeminiClient();
+  const instructions = [
+    `Viết listing tiếng Anh cho Amazon Merch on Demand cho thiết kế áo trong ảnh. Chủ đề/niche: "${req.name}".`,
+    req.tags?.length ? `Từ khóa gợi ý: ${req.tags.join(', ')}.` : '',
+    req.prompt ? `Prompt dùng để tạo thiết kế: ${req.prompt}` : '',
+    `Giới hạn: brand ${LISTING_LIMITS.brand.min}-${LISTING_LIMITS.brand.max} ký tự, title tối đa ${LISTING_LIMITS.title.max}, đúng 2 bullet mỗi bullet tối đa ${LISTING_LIMITS.bullet.max}, description ${LISTING_LIMITS.description.min}-${LISTING_LIMITS.description.max}, tags là search terms ngắn (tổng tối đa ${LISTING_LIMITS.tags.max} ký tự).`,
+    'Không dùng tên thương hiệu, đội thể thao, nhân vật hay người nổi tiếng; không nhắc tới chất liệu, giá, khuyến mãi hay đánh giá sao.',
+  ].filter(Boolean).join('\n');
+
+  const startedAt = Date.now();
+  const report = (outcome: GenerationUsage['outcome'], cost = 0) => req.onUsage?.({
+    provider: 'gemini',
+    model: LISTING_MODEL,
+    outcome,
+    latencyMs: Date.now() - startedAt,
+    cost,
+  });
+
+  try {
+    const response = await ai.models.generateContent({
+      model: LISTING_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data: req.image.split(',')[1], mimeType: mimeFromDataUrl(req.image) } },
+          { text: instructions },
+        ],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: LISTING_SCHEMA,
+        abortSignal: req.signal,
+      },
+    });
+    if (!response.text) throw new Error("AI không trả về nội dung listing.");
+    const listing = clampListing(JSON.parse(response.text));
+    const usage = response.usageMetadata;
+    report('success', ((usage?.promptTokenCount ?? 0) * INPUT_PRICE + (usage?.candidatesTokenCount ?? 0) * OUTPUT_PRICE) / 1_000_000);
+    return listing;
+  } catch (error: any) {
+    report(req.signal?.aborted ? 'cancelled' : 'error');
+    throw req.signal?.aborted ? error : classifyGenerationError(error);
+  }
+};
+
+export const getListing = (batch: BatchItem, mode: ResultMode, slot: number): ListingMetadata | undefined => {
+  const listing = batch.listings?.[slotKey(mode, slot)];
+  return listing && listing.versionId === getHeadId(batch, mode, slot) ? listing : undefined;
+};
+
+// versionId: version của ảnh đã gửi cho model; mặc định là ảnh đang hiển thị (khi sửa tay)
+export const setListing = (batch: BatchItem, mode: ResultMode, slot: number, listing: ListingMetadata, versionId = getHeadId(batch, mode, slot)): BatchItem => ({
+  ...batch,
+  listings: { ...batch.listings, [slotKey(mode, slot)]: { ...listing, versionId } },
+});
+
+export const countListings = (batch: BatchItem) =>
+  (['normal', 'pro'] as ResultMode[]).reduce((sum, mode) =>
+    sum + batch[resultsKey(mode)].filter((_, slot) => getListing(batch, mode, slot)).length, 0);
+
+export const clearListings = (batch: BatchItem, mode: ResultMode): Record<string, ListingMetadata> =>
+  Object.fromEntries(Object.entries(batch.listings ?? {}).filter(([k]) => !k.startsWith(`${mode}:`)));
+
+// Ưu tiên ảnh Favorite; chưa chọn thì viết cho mọi ảnh chưa bị Reject
+export const listingTargets = (batch: BatchItem): { mode: ResultMode; slot: number }[] => {
+  const all = (['normal', 'pro'] as ResultMode[]).flatMap(mode =>
+    batch[resultsKey(mode)].map((_, slot) => ({ mode, slot, status: getPick(batch, mode, slot).status }))
+  );
+  const favorites = all.filter(t => t.status === 'favorite');
+  return (favorites.length > 0 ? favorites : all.filter(t => t.status !== 'rejected')).map(({ mode, slot }) => ({ mode, slot }));
+};
+
+export interface ListingExportEntry {
+  fileName: string;
+  listing: ListingMetadata;
+}
+
+// Thứ tự cột theo form Merch on Demand: Brand, Title, 2 bullet, Description
+export const LISTING_COLUMNS = ['File', 'Brand', 'Title', 'Bullet Point 1', 'Bullet Point 2', 'Description', 'Search Terms'];
+
+export const listingToRow = (fileName: string, listing: ListingMetadata) => [
+  fileName,
+  listing.brand,
+  listing.title,
+  listing.bullets[0],
+  listing.bullets[1],
+  listing.description,
+  joinTags(cleanTags(listing.tags)),
+];
+
+export const buildListingsCsv = (entries: ListingExportEntry[]) =>
+  toCSV([LISTING_COLUMNS, ...entries.map(e => listingToRow(e.fileName, e.listing))]);
+
+export const buildListingsJson = (entries: ListingExportEntry[]) =>
+  JSON.stringify(entries.map(({ fileName, listing }) => ({
+    file: fileName,
+    brand: listing.brand,
+    title: listing.title,
+    bullets: listing.bullets,
+    description: listing.description,
+    tags: cleanTags(listing.tags),
+  })), null, 2);
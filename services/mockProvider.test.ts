@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mockProvider } from './mockProvider';
+
+// vi.mock được hoist lên trước import. Node không có canvas: ghi lại mọi lệnh vẽ, toDataURL trả về nhật ký đó để so sánh đầu ra
+vi.mock('./imageUtils', () => ({
+  loadImage: async () => ({ naturalWidth: 64, naturalHeight: 64 }),
+  createCanvas: (width: number, height: number) => {
+    const log: string[] = [`${width}x${height}`];
+    const ctx = new Proxy({}, {
+      get: (_, key) => (...args: unknown[]) => { log.push(`${String(key)}(${args.map(a => typeof a === 'object' ? 'obj' : String(a)).join(',')})`); },
+      set: (_, key, value) => { log.push(`${String(key)}=${value}`); return true; },
+    });
+    return { canvas: { width, height, toDataURL: () => `data:image/png;base64,${btoa(log.join(';'))}` }, ctx };
+  },
+}));
+
+const request = (prompt: string) => ({
+  model: 'mock-fast',
+  prompt,
+  aspectRatio: '3:2',
+  references: [{ id: 'r', preview: 'ref', base64: 'data:image/png;base64,AAAA' }],
+});
+
+describe('mockProvider', () => {
+  it('cùng input luôn ra cùng ảnh', async () => {
+    const [first, second] = await Promise.all([mockProvider.generate(request('cat')), mockProvider.generate(request('cat'))]);
+    expect(first.image).toBe(second.image);
+    expect(first.response?.modelVersion).toBe('mock-fast');
+  });
+
+  it('đổi prompt thì ra ảnh khác', async () => {
+    const [cat, dog] = await Promise.all([mockProvider.generate(request('cat')), mockProvider.generate(request('dog'))]);
+    expect(cat.image).not.toBe(dog.image);
+  });
+
+  it('dừng ngay khi signal bị hủy', async () => {
+    const controller = new AbortController();
+    controller.abort(new DOMException('Aborted', 'AbortError'));
+    await expect(mockProvider.generate({ ...request('cat'), signal: controller.signal })).rejects.toThrow('Aborted');
+  });
+});
@@ -0,0 +1,138 @@
+import { ImageSize, ResponseMetadata } from "../types";
+import { ImageProvider } from "./imageProvider";
+import { loadImage, createCanvas } from "./imageUtils";
+import { ASPECT_RATIOS, IMAGE_SIZES } from "./geminiProvider";
+
+const SIZE_PIXELS: Record<ImageSize, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+// Giả lập độ trễ mạng để queue/progress vẫn chạy như thật khi demo
+const MOCK_LATENCY_MS = 400;
+
+// FNV-1a: cùng input luôn ra cùng ảnh
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Lấy mẫu thưa để không phải băm cả chuỗi base64 vài MB
+const sampleDataUrl = (dataUrl: string) => {
+  let out = `${dataUrl.length}`;
+  const step = Math.max(1, Math.floor(dataUrl.length / 64));
+  for (let i = 0; i < dataUrl.length; i += step) out += dataUrl[i];
+  return out;
+};
+
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const outputSize = (aspectRatio: string, imageSize?: ImageSize) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const long = SIZE_PIXELS[imageSize ?? '1K'];
+  return w >= h
+    ? { width: long, height: Math.round((long * h) / w) }
+    : { width: Math.round((long * w) / h), height: long };
+};
+
+const wait = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const drawShapes = (ctx: CanvasRenderingContext2D, width: number, height: number, random: () => number) => {
+  const count = 3 + Math.floor(random() * 4);
+  for (let i = 0; i < count; i++) {
+    ctx.fillStyle = `hsl(${Math.floor(random() * 360)}, 80%, ${45 + Math.floor(random() * 25)}%)`;
+    const x = width * (0.2 + random() * 0.6);
+    const y = height * (0.2 + random() * 0.6);
+    const r = Math.min(width, height) * (0.08 + random() * 0.18);
+    ctx.beginPath();
+    if (random() < 0.5) ctx.arc(x, y, r, 0, Math.PI * 2);
+    else ctx.rect(x - r, y - r, r * 2, r * 2);
+    ctx.fill();
+  }
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, width: number, height: number, model: string, prompt: string) => {
+  const fontSize = Math.round(Math.min(width, height) / 28);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.fillText(`MOCK · ${model}`, width / 2, height - fontSize * 2.5);
+  ctx.font = `${Math.round(fontSize * 0.7)}px sans-serif`;
+  ctx.fillText(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt, width / 2, height - fontSize);
+};
+
+// Response giả để thử drawer hiển thị metadata khi không có API key
+const mockResponse = (model: string, action: string): ResponseMetadata => ({
+  text: `${action} ảnh mock: hình khối ngẫu nhiên theo hash của prompt và ảnh đầu vào.`,
+  finishReason: 'STOP',
+  modelVersion: model,
+});
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  models: {
+    normal: ['mock-fast'],
+    pro: ['mock-pro'],
+  },
+  capabilities: {
+    aspectRatios: ASPECT_RATIOS,
+    imageSizes: IMAGE_SIZES,
+    normalImageSize: true,
+    edit: true,
+    mask: true,
+  },
+  generate: async req => {
+    await wait(req.signal);
+    const seed = hashString([req.model, req.prompt, req.aspectRatio, req.imageSize, ...req.references.map(r => sampleDataUrl(r.base64))].join('|'));
+    const { width, height } = outputSize(req.aspectRatio, req.imageSize);
+    const { canvas, ctx } = createCanvas(width, height);
+    // Nền đen như thiết kế POD thật để thử được knockout/export
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    drawShapes(ctx, width, height, seededRandom(seed));
+    drawLabel(ctx, width, height, req.model, req.prompt);
+    return { image: canvas.toDataURL('image/png'), response: mockResponse(req.model, 'Tạo') };
+  },
+  edit: async req => {
+    await wait(req.signal);
+    const source = await loadImage(req.source);
+    const width = source.naturalWidth;
+    const height = source.naturalHeight;
+    const seed = hashString([req.model, req.prompt, sampleDataUrl(req.source), req.mask ? sampleDataUrl(req.mask) : ''].join('|'));
+
+    const { canvas: overlay, ctx: overlayCtx } = createCanvas(width, height);
+    drawShapes(overlayCtx, width, height, seededRandom(seed));
+    if (req.mask) {
+      // Mask trắng/đen -> alpha để chỉ giữ phần overlay trong vùng trắng
+      const { canvas: alpha, ctx: alphaCtx } = createCanvas(width, height);
+      alphaCtx.drawImage(await loadImage(req.mask), 0, 0, width, height);
+      const data = alphaCtx.getImageData(0, 0, width, height);
+      for (let i = 0; i < data.data.length; i += 4) data.data[i + 3] = data.data[i];
+      alphaCtx.putImageData(data, 0, 0);
+      overlayCtx.globalCompositeOperation = 'destination-in';
+      overlayCtx.drawImage(alpha, 0, 0);
+    }
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(source, 0, 0);
+    ctx.globalAlpha = 0.7;
+    ctx.drawImage(overlay, 0, 0);
+    ctx.globalAlpha = 1;
+    drawLabel(ctx, width, height, req.model, req.prompt);
+    return { image: canvas.toDataURL('image/png'), response: mockResponse(req.model, req.mask ? 'Sửa vùng mask' : 'Sửa') };
+  },
+  estimateCost: () => 0,
+};
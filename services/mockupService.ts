@@ -0,0 +1,271 @@
+import { MockupSettings } from "../types";
+import { loadImage, createCanvas } from "./imageUtils";
+import { knockoutBlack, DEFAULT_KNOCKOUT_OPTIONS } from "./knockoutService";
+import { getSetting, setSetting } from "./storageService";
+
+const SETTINGS_KEY = 'mockupSettings';
+
+interface PrintArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MockupTemplate {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  colors: string[];
+  printArea: PrintArea;
+  // Vẽ phôi sản phẩm (đã gồm đổ bóng) và trả về path dùng để cắt thiết kế
+  drawProduct: (ctx: CanvasRenderingContext2D, color: string) => Path2D;
+  // Ánh xạ ngược: điểm (u, v) trên vùng in -> điểm trên thiết kế phẳng, null = không vẽ
+  warp: (u: number, v: number) => [number, number] | null;
+  // Hệ số sáng tại (u, v) để nếp vải / độ cong ăn vào thiết kế
+  shade: (u: number, v: number) => number;
+}
+
+export const DEFAULT_MOCKUP_SETTINGS: MockupSettings = {
+  templateId: 'shirt',
+  colors: {},
+  scale: 0.9,
+  offsetX: 0,
+  offsetY: 0,
+  knockout: true,
+  exportTemplates: [],
+};
+
+const shadeProduct = (ctx: CanvasRenderingContext2D, path: Path2D, width: number, height: number, gradient: CanvasGradient) => {
+  ctx.save();
+  ctx.clip(path);
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+};
+
+// Nếp vải dùng chung cho warp và shade để chỗ bị lệch cũng là chỗ tối
+const shirtFold = (u: number, v: number) => Math.sin(v * 11 + u * 4) * 0.6 + Math.sin(u * 17 - v * 3) * 0.4;
+
+const SHIRT: MockupTemplate = {
+  id: 'shirt',
+  label: 'T-Shirt',
+  width: 1000,
+  height: 1100,
+  colors: ['#ffffff', '#111111', '#1e3a8a', '#9ca3af', '#b91c1c', '#14532d'],
+  printArea: { x: 310, y: 270, width: 380, height: 460 },
+  drawProduct: (ctx, color) => {
+    const path = new Path2D();
+    path.moveTo(380, 80);
+    path.quadraticCurveTo(500, 150, 620, 80);
+    path.lineTo(800, 140);
+    path.lineTo(960, 360);
+    path.lineTo(830, 440);
+    path.lineTo(760, 360);
+    path.lineTo(770, 1040);
+    path.quadraticCurveTo(500, 1070, 230, 1040);
+    path.lineTo(240, 360);
+    path.lineTo(170, 440);
+    path.lineTo(40, 360);
+    path.lineTo(200, 140);
+    path.closePath();
+    ctx.fillStyle = color;
+    ctx.fill(path);
+    const gradient = ctx.createLinearGradient(0, 0, 1000, 0);
+    gradient.addColorStop(0, '#9a9a9a');
+    gradient.addColorStop(0.3, '#ffffff');
+    gradient.addColorStop(0.7, '#f2f2f2');
+    gradient.addColorStop(1, '#8a8a8a');
+    shadeProduct(ctx, path, 1000, 1100, gradient);
+    ctx.save();
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    ctx.moveTo(380, 80);
+    ctx.quadraticCurveTo(500, 150, 620, 80);
+    ctx.stroke();
+    ctx.restore();
+    return path;
+  },
+  warp: (u, v) => [u + shirtFold(u, v) * 0.006, v + shirtFold(v, u) * 0.006],
+  shade: (u, v) => 0.94 + shirtFold(u, v) * 0.06,
+};
+
+const MUG: MockupTemplate = {
+  id: 'mug',
+  label: 'Mug',
+  width: 1200,
+  height: 900,
+  colors: ['#ffffff', '#111111'],
+  printArea: { x: 270, y: 190, width: 560, height: 540 },
+  drawProduct: (ctx, color) => {
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 60;
+    ctx.beginPath();
+    ctx.ellipse(900, 450, 130, 170, 0, -Math.PI / 2, Math.PI / 2);
+    ctx.stroke();
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+    ctx.lineWidth = 4;
+    ctx.stroke();
+    ctx.restore();
+
+    const path = new Path2D();
+    path.moveTo(250, 150);
+    path.lineTo(850, 150);
+    path.lineTo(850, 760);
+    path.quadraticCurveTo(550, 800, 250, 760);
+    path.closePath();
+    ctx.fillStyle = color;
+    ctx.fill(path);
+    const gradient = ctx.createLinearGradient(250, 0, 850, 0);
+    gradient.addColorStop(0, '#7a7a7a');
+    gradient.addColorStop(0.35, '#ffffff');
+    gradient.addColorStop(0.55, '#f5f5f5');
+    gradient.addColorStop(1, '#6a6a6a');
+    shadeProduct(ctx, path, 1200, 900, gradient);
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.15)';
+    ctx.beginPath();
+    ctx.ellipse(550, 150, 300, 28, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+    return path;
+  },
+  // Thân cốc là hình trụ: ảnh phẳng bị nén dần về hai mép
+  warp: (u, v) => {
+    const theta = Math.asin(Math.max(-1, Math.min(1, u * 2 - 1)));
+    return [0.5 + theta / Math.PI, v];
+  },
+  shade: u => 0.55 + Math.sqrt(Math.max(0, 1 - (u * 2 - 1) ** 2)) * 0.45,
+};
+
+const HAT: MockupTemplate = {
+  id: 'hat',
+  label: 'Hat',
+  width: 1000,
+  height: 850,
+  colors: ['#111111', '#ffffff', '#1e3a8a', '#4b5563', '#78350f'],
+  printArea: { x: 330, y: 250, width: 340, height: 230 },
+  drawProduct: (ctx, color) => {
+    const brim = new Path2D();
+    brim.ellipse(500, 600, 380, 110, 0, 0, Math.PI * 2);
+    ctx.fillStyle = color;
+    ctx.fill(brim);
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    ctx.fill(brim);
+    ctx.restore();
+
+    const path = new Path2D();
+    path.moveTo(170, 600);
+    path.bezierCurveTo(160, 200, 840, 200, 830, 600);
+    path.quadraticCurveTo(500, 660, 170, 600);
+    path.closePath();
+    ctx.fillStyle = color;
+    ctx.fill(path);
+    const gradient = ctx.createRadialGradient(500, 330, 40, 500, 420, 420);
+    gradient.addColorStop(0, '#ffffff');
+    gradient.addColorStop(0.6, '#dddddd');
+    gradient.addColorStop(1, '#777777');
+    shadeProduct(ctx, path, 1000, 850, gradient);
+    ctx.save();
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(500, 240);
+    ctx.lineTo(500, 300);
+    ctx.stroke();
+    ctx.restore();
+    return path;
+  },
+  // Mặt trước mũ cong và thu hẹp dần lên trên
+  warp: (u, v) => {
+    const x = u * 2 - 1;
+    const sv = (v - 0.12 * (1 - x * x)) / 0.88;
+    if (sv < 0 || sv > 1) return null;
+    return [0.5 + (u - 0.5) / (0.8 + 0.2 * sv), sv];
+  },
+  shade: u => 1 - 0.3 * (u * 2 - 1) ** 2,
+};
+
+export const MOCKUP_TEMPLATES: MockupTemplate[] = [SHIRT, MUG, HAT];
+
+export const getMockupTemplate = (id: string) =>
+  MOCKUP_TEMPLATES.find(t => t.id === id) ?? MOCKUP_TEMPLATES[0];
+
+export const mockupColor = (template: MockupTemplate, settings: MockupSettings) =>
+  settings.colors[template.id] ?? template.colors[0];
+
+// Lấy mẫu theo ánh xạ ngược của template, nhân với độ sáng để thiết kế "ăn" vào bề mặt
+export const warpDesign = (source: ImageData, target: ImageData, template: Pick<MockupTemplate, 'warp' | 'shade'>): void => {
+  const { width: sw, height: sh, data: src } = source;
+  const { width: tw, height: th, data: out } = target;
+  for (let y = 0; y < th; y++) {
+    for (let x = 0; x < tw; x++) {
+      const u = (x + 0.5) / tw;
+      const v = (y + 0.5) / th;
+      const mapped = template.warp(u, v);
+      if (!mapped) continue;
+      const sx = Math.floor(mapped[0] * sw);
+      const sy = Math.floor(mapped[1] * sh);
+      if (sx < 0 || sy < 0 || sx >= sw || sy >= sh) continue;
+      const si = (sy * sw + sx) * 4;
+      const ti = (y * tw + x) * 4;
+      const shade = template.shade(u, v);
+      out[ti] = src[si] * shade;
+      out[ti + 1] = src[si + 1] * shade;
+      out[ti + 2] = src[si + 2] * shade;
+      out[ti + 3] = src[si + 3];
+    }
+  }
+};
+
+// Thiết kế POD có nền đen nên mặc định tách nền trước khi đặt lên phôi; làm một lần cho mọi template
+export const prepareMockupDesign = (design: string, knockout: boolean): Promise<string> =>
+  knockout ? knockoutBlack(design, DEFAULT_KNOCKOUT_OPTIONS) : Promise.resolve(design);
+
+export const renderMockup = async (design: string, template: MockupTemplate, settings: MockupSettings): Promise<string> => {
+  const img = await loadImage(design);
+  const { printArea } = template;
+
+  // Đặt thiết kế phẳng vào vùng in theo scale/offset trước khi uốn
+  const { canvas: flat, ctx: flatCtx } = createCanvas(printArea.width, printArea.height);
+  const fit = Math.min(printArea.width / img.naturalWidth, printArea.height / img.naturalHeight) * settings.scale;
+  const drawW = img.naturalWidth * fit;
+  const drawH = img.naturalHeight * fit;
+  flatCtx.imageSmoothingQuality = 'high';
+  flatCtx.drawImage(
+    img,
+    (printArea.width - drawW) / 2 + settings.offsetX * printArea.width,
+    (printArea.height - drawH) / 2 + settings.offsetY * printArea.height,
+    drawW,
+    drawH,
+  );
+
+  const { canvas: warped, ctx: warpedCtx } = createCanvas(printArea.width, printArea.height);
+  const target = warpedCtx.createImageData(printArea.width, printArea.height);
+  warpDesign(flatCtx.getImageData(0, 0, printArea.width, printArea.height), target, template);
+  warpedCtx.putImageData(target, 0, 0);
+
+  const { canvas, ctx } = createCanvas(template.width, template.height);
+  ctx.fillStyle = '#f1f5f9';
+  ctx.fillRect(0, 0, template.width, template.height);
+  const productPath = template.drawProduct(ctx, mockupColor(template, settings));
+  ctx.save();
+  ctx.clip(productPath);
+  ctx.drawImage(warped, printArea.x, printArea.y);
+  ctx.restore();
+  return canvas.toDataURL('image/png');
+};
+
+export const loadMockupSettings = async (): Promise<MockupSettings> => {
+  const saved = await getSetting<MockupSettings>(SETTINGS_KEY);
+  return { ...DEFAULT_MOCKUP_SETTINGS, ...saved };
+};
+
+export const saveMockupSettings = async (settings: MockupSettings): Promise<void> => {
+  await setSetting(SETTINGS_KEY, settings);
+};
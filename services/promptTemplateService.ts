@@ -0,0 +1,97 @@
+import { BatchItem, PromptTemplate } from "../types";
+import { getSetting, setSetting } from "./storageService";
+
+export const DEFAULT_POD_PROMPT = `
+    Nhiệm vụ: Bạn là một nhà thiết kế Graphic Design chuyên nghiệp cho thị trường Print on Demand (POD).
+    Hãy phân tích các mẫu thiết kế và tạo ra một TÁC PHẨM NGHỆ THUẬT (WORKART) mới, độc bản.
+    
+    YÊU CẦU KỸ THUẬT QUAN TRỌNG:
+    - NỀN ĐEN TUYỆT ĐỐI (#000000) - Điều này cực kỳ quan trọng để người dùng dễ dàng lọc màu đen (knockout black).
+    - KHÔNG Mockup, KHÔNG có người mẫu, KHÔNG có vật dụng trưng bày.
+    - Chỉ tập trung vào ASSET ĐỒ HỌA 2D hoặc ILLUSTRATION sạch sẽ.
+    - Đường nét (Outlines) phải cực kỳ sắc nét, rõ ràng, phân tách hoàn toàn với nền đen.
+    - Sử dụng các màu sắc rực rỡ, độ tương phản cực cao so với nền đen để họa tiết nổi bật hoàn toàn.
+    - Độ chi tiết cao (High-detail), phong cách Digital Art chuyên nghiệp cho áo thun, cốc, mũ.
+  `;
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin-pod-default',
+    name: 'POD Default (VI)',
+    body: DEFAULT_POD_PROMPT.trim(),
+    builtIn: true,
+    updatedAt: 0,
+  },
+  {
+    id: 'builtin-niche-style',
+    name: 'Niche + Style',
+    body: [
+      'Nhiệm vụ: Thiết kế một WORKART POD mới cho chủ đề "{{name}}" thuộc niche {{niche}}.',
+      'Phong cách: {{style}}.',
+      'Phân tích các ảnh tham khảo, giữ tinh thần bán chạy nhưng tạo bố cục và họa tiết hoàn toàn mới.',
+      'NỀN ĐEN TUYỆT ĐỐI (#000000), KHÔNG mockup, outline sắc nét, màu tương phản cao.',
+      '{{prompt}}',
+    ].join('\n'),
+    builtIn: true,
+    updatedAt: 0,
+  },
+];
+
+const STORAGE_KEY = 'promptTemplates';
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export const normalizeVariableName = (name: string) =>
+  name.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+export const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+// Mỗi cột trong sheet được truy cập theo tên header ({{niche}}) hoặc theo chữ cái cột ({{col_c}})
+export const buildRowFields = (header: string[], row: string[]): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  row.forEach((value, i) => {
+    fields[`col_${columnLetter(i).toLowerCase()}`] = value;
+    const key = normalizeVariableName(header[i] || '');
+    if (key && !(key in fields)) fields[key] = value;
+  });
+  return fields;
+};
+
+export const buildTemplateVariables = (batch: BatchItem): Record<string, string> => ({
+  ...batch.fields,
+  name: batch.name,
+  prompt: batch.customPrompt ?? '',
+});
+
+export const extractPlaceholders = (body: string): string[] => {
+  const names = new Set<string>();
+  for (const match of body.matchAll(PLACEHOLDER_PATTERN)) names.add(normalizeVariableName(match[1]));
+  return [...names];
+};
+
+export const renderTemplate = (body: string, variables: Record<string, string>): string => {
+  return body
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => variables[normalizeVariableName(name)] ?? '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+export const resolveBatchPrompt = (batch: BatchItem, templates: PromptTemplate[]): string | undefined => {
+  const template = batch.templateId ? templates.find(t => t.id === batch.templateId) : undefined;
+  if (!template) return batch.customPrompt;
+  return renderTemplate(template.body, buildTemplateVariables(batch)) || undefined;
+};
+
+export const loadTemplates = async (): Promise<PromptTemplate[]> => {
+  const saved = await getSetting<PromptTemplate[]>(STORAGE_KEY);
+  return [...BUILT_IN_TEMPLATES, ...(saved ?? [])];
+};
+
+export const saveTemplates = async (templates: PromptTemplate[]): Promise<void> => {
+  await setSetting(STORAGE_KEY, templates.filter(t => !t.builtIn));
+};
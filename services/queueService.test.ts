@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createJobQueue } from './queueService';
+
+const settings = { concurrency: 3, requestsPerMinute: 0, maxRetries: 0 };
+
+describe('createJobQueue admission', () => {
+  it('không gửi job vượt budget khi tính cả job đang chạy', async () => {
+    const queue = createJobQueue(settings);
+    queue.setAdmission(reserved => reserved <= 0.3);
+    let paused = false;
+    queue.subscribe(snapshot => { paused = snapshot.paused; });
+
+    const started: number[] = [];
+    const release: (() => void)[] = [];
+    const jobs = [0, 1, 2].map(i => queue.add('batch', () => new Promise<void>(resolve => {
+      started.push(i);
+      release.push(resolve);
+    }), undefined, 0.134));
+
+    expect(started).toEqual([0, 1]);
+    expect(paused).toBe(true);
+
+    release.forEach(r => r());
+    await Promise.all(jobs.slice(0, 2));
+    expect(started).toEqual([0, 1]);
+
+    queue.setAdmission(null);
+    queue.resume();
+    expect(started).toEqual([0, 1, 2]);
+    release[2]();
+    await jobs[2];
+  });
+});
@@ -0,0 +1,191 @@
+import { JobState } from "../types";
+import { GenerationError } from "./generationErrors";
+
+export interface QueueSettings {
+  concurrency: number;
+  requestsPerMinute: number;
+  maxRetries: number;
+}
+
+export interface QueueSnapshot {
+  pending: number;
+  running: number;
+  paused: boolean;
+}
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  concurrency: 3,
+  requestsPerMinute: 20,
+  maxRetries: 4,
+};
+
+const RATE_WINDOW_MS = 60_000;
+const BASE_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 60_000;
+const TRANSIENT_PATTERN = /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|Failed to fetch|NetworkError/i;
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('JOB_CANCELLED');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const isTransientError = (error: any): boolean => {
+  if (error instanceof GenerationError && error.kind !== 'unknown') return error.kind === 'quota' || error.kind === 'network';
+  const status = error?.status ?? error?.cause?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  return TRANSIENT_PATTERN.test(String(error?.message ?? ''));
+};
+
+const backoffDelay = (attempt: number) => {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+interface Job {
+  groupId: string;
+  // Chi phí ước tính, giữ chỗ trong budget từ lúc job được gửi đi
+  cost: number;
+  task: (signal: AbortSignal) => Promise<unknown>;
+  onState?: (state: JobState, attempt: number) => void;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+  attempt: number;
+  notBefore: number;
+  cancelled: boolean;
+  controller?: AbortController;
+}
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
+
+export const createJobQueue = (initialSettings: QueueSettings) => {
+  let settings = { ...initialSettings };
+  let pending: Job[] = [];
+  const active = new Set<Job>();
+  let paused = false;
+  let startTimes: number[] = [];
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  const listeners = new Set<(snapshot: QueueSnapshot) => void>();
+  let admit: ((reservedCost: number) => boolean) | null = null;
+
+  const reservedCost = () => Array.from(active).reduce((sum, job) => sum + job.cost, 0);
+
+  const notify = () => {
+    const snapshot = { pending: pending.length, running: active.size, paused };
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  const wakeIn = (delay: number) => {
+    if (wakeTimer) clearTimeout(wakeTimer);
+    wakeTimer = setTimeout(() => {
+      wakeTimer = null;
+      pump();
+    }, Math.max(0, delay));
+  };
+
+  const execute = async (job: Job) => {
+    active.add(job);
+    job.controller = new AbortController();
+    job.onState?.('running', job.attempt);
+    try {
+      const result = await job.task(job.controller.signal);
+      job.onState?.('done', job.attempt);
+      job.resolve(result);
+    } catch (error) {
+      if (job.cancelled) {
+        job.onState?.('cancelled', job.attempt);
+        job.reject(new JobCancelledError());
+      } else if (isTransientError(error) && job.attempt < settings.maxRetries) {
+        job.attempt++;
+        job.notBefore = Date.now() + backoffDelay(job.attempt);
+        job.onState?.('retrying', job.attempt);
+        pending.unshift(job);
+      } else {
+        job.onState?.('failed', job.attempt);
+        job.reject(error);
+      }
+    } finally {
+      active.delete(job);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (paused) return notify();
+    const now = Date.now();
+    startTimes = startTimes.filter(t => now - t < RATE_WINDOW_MS);
+
+    while (active.size < settings.concurrency && pending.length > 0) {
+      const index = pending.findIndex(job => job.notBefore <= now);
+      if (index === -1) {
+        wakeIn(Math.min(...pending.map(job => job.notBefore)) - now);
+        break;
+      }
+      if (settings.requestsPerMinute > 0 && startTimes.length >= settings.requestsPerMinute) {
+        wakeIn(startTimes[0] + RATE_WINDOW_MS - now);
+        break;
+      }
+      // Job kế tiếp sẽ vượt budget (tính cả job đang chạy): dừng lại chờ người dùng tăng budget rồi resume
+      if (admit && !admit(reservedCost() + pending[index].cost)) {
+        paused = true;
+        break;
+      }
+      const [job] = pending.splice(index, 1);
+      startTimes.push(now);
+      execute(job);
+    }
+    notify();
+  };
+
+  const add = <T>(groupId: string, task: (signal: AbortSignal) => Promise<T>, onState?: (state: JobState, attempt: number) => void, cost = 0): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      pending.push({ groupId, cost, task, onState, resolve, reject, attempt: 0, notBefore: 0, cancelled: false });
+      onState?.('queued', 0);
+      pump();
+    });
+  };
+
+  // Job đang chờ bị loại khỏi hàng đợi, job đang chạy bị abort ngay lập tức
+  const cancel = (groupId?: string) => {
+    const matches = (job: Job) => groupId === undefined || job.groupId === groupId;
+    const dropped = pending.filter(matches);
+    pending = pending.filter(job => !matches(job));
+    active.forEach(job => {
+      if (!matches(job)) return;
+      job.cancelled = true;
+      job.controller?.abort();
+    });
+    dropped.forEach(job => {
+      job.onState?.('cancelled', job.attempt);
+      job.reject(new JobCancelledError());
+    });
+    pump();
+  };
+
+  const pause = () => {
+    paused = true;
+    notify();
+  };
+
+  const resume = () => {
+    paused = false;
+    pump();
+  };
+
+  const updateSettings = (next: QueueSettings) => {
+    settings = { ...next };
+    pump();
+  };
+
+  const setAdmission = (check: ((reservedCost: number) => boolean) | null) => {
+    admit = check;
+  };
+
+  const subscribe = (listener: (snapshot: QueueSnapshot) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  };
+
+  return { add, cancel, pause, resume, updateSettings, setAdmission, subscribe };
+};
@@ -0,0 +1,180 @@
+import { ImageFile } from "../types";
+import { IMAGE_SLOT_COUNT } from "./sheetService";
+import { loadImage, createCanvas } from "./imageUtils";
+
+export const DEFAULT_REFERENCE_MAX_DIMENSION = 1024;
+export const REFERENCE_MAX_DIMENSIONS = [512, 768, 1024, 1536, 2048, 0];
+
+// Định dạng Gemini nhận trực tiếp; định dạng khác sẽ được re-encode sang PNG
+const SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+export const sniffMimeType = (bytes: Uint8Array): string | null => {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 2) === 'BM') return 'image/bmp';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand.startsWith('avi')) return 'image/avif';
+    if (brand.startsWith('hei') || brand.startsWith('mif')) return 'image/heic';
+  }
+  return null;
+};
+
+const base64Head = (base64: string, byteCount: number) => {
+  const binary = atob(base64.slice(0, Math.ceil(byteCount / 3) * 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+// Ưu tiên magic bytes vì nhiều CDN trả về content-type sai hoặc octet-stream
+export const mimeFromDataUrl = (dataUrl: string): string => {
+  const match = dataUrl.match(/^data:([^;,]*)[^,]*,(.*)$/s);
+  if (!match) return 'image/png';
+  const [, declared, payload] = match;
+  try {
+    const sniffed = sniffMimeType(base64Head(payload, 16));
+    if (sniffed) return sniffed;
+  } catch {
+    // payload không phải base64 hợp lệ, dùng MIME khai báo
+  }
+  return declared || 'image/png';
+};
+
+// Mỗi entry giữ cả ảnh base64 nên chỉ giữ các ảnh dùng gần nhất (LRU)
+const CACHE_LIMIT = 40;
+
+const cacheGet = <T>(cache: Map<string, T>, key: string): T | undefined => {
+  const value = cache.get(key);
+  if (value === undefined) return undefined;
+  cache.delete(key);
+  cache.set(key, value);
+  return value;
+};
+
+const cacheSet = <T>(cache: Map<string, T>, key: string, value: T) => {
+  cache.delete(key);
+  cache.set(key, value);
+  while (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+};
+
+const downloadCache = new Map<string, Promise<ImageFile>>();
+
+// Cache theo URL để các batch dùng chung ảnh tham khảo chỉ tải một lần
+export const fetchReference = (url: string): Promise<ImageFile> => {
+  const cached = cacheGet(downloadCache, url);
+  if (cached) return cached;
+
+  const task = (async () => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const blob = await response.blob();
+    const dataUrl = await readFileAsDataUrl(blob);
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      preview: url,
+      base64: dataUrl,
+      mimeType: mimeFromDataUrl(dataUrl),
+    };
+  })();
+  cacheSet(downloadCache, url, task);
+  task.catch(() => downloadCache.delete(url));
+  return task;
+};
+
+const requestCache = new Map<string, Promise<{ data: string; mimeType: string }>>();
+
+// Ảnh của project cũ không còn dùng sau khi chuyển project
+export const clearReferenceCaches = () => {
+  downloadCache.clear();
+  requestCache.clear();
+};
+
+const encodeForRequest = async (img: ImageFile, maxDimension: number) => {
+  const mimeType = img.mimeType || mimeFromDataUrl(img.base64);
+  const source = await loadImage(img.base64);
+  const longest = Math.max(source.naturalWidth, source.naturalHeight);
+  const needsResize = maxDimension > 0 && longest > maxDimension;
+  if (!needsResize && SUPPORTED_MIME_TYPES.includes(mimeType)) {
+    return { data: img.base64, mimeType };
+  }
+
+  const scale = needsResize ? maxDimension / longest : 1;
+  const { canvas, ctx } = createCanvas(Math.round(source.naturalWidth * scale), Math.round(source.naturalHeight * scale));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  // JPEG gọn hơn nhiều cho ảnh chụp sản phẩm; giữ PNG khi nguồn có thể trong suốt
+  const outType = mimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  return { data: canvas.toDataURL(outType, 0.9), mimeType: outType };
+};
+
+export const prepareReferences = async (images: (ImageFile | null)[], maxDimension: number): Promise<(ImageFile | null)[]> => {
+  return Promise.all(images.map(async img => {
+    if (!img) return null;
+    const key = `${img.id}:${maxDimension}`;
+    let task = cacheGet(requestCache, key);
+    if (!task) {
+      task = encodeForRequest(img, maxDimension);
+      cacheSet(requestCache, key, task);
+      task.catch(() => requestCache.delete(key));
+    }
+    const { data, mimeType } = await task;
+    return { ...img, base64: data, mimeType };
+  }));
+};
+
+export const readFileAsDataUrl = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+export const fileToImageFile = async (file: File): Promise<ImageFile> => {
+  if (!file.type.startsWith('image/')) throw new Error(`"${file.name}" không phải file ảnh.`);
+  const dataUrl = await readFileAsDataUrl(file);
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    file,
+    // Dùng data URL thay cho object URL để preview vẫn còn sau khi reload
+    preview: dataUrl,
+    base64: dataUrl,
+    mimeType: mimeFromDataUrl(dataUrl),
+  };
+};
+
+export const imageFilesFromDataTransfer = (data: DataTransfer | null): File[] => {
+  if (!data) return [];
+  return Array.from(data.files).filter(f => f.type.startsWith('image/'));
+};
+
+export const normalizeSlots = (images: (ImageFile | null)[]): (ImageFile | null)[] =>
+  Array.from({ length: IMAGE_SLOT_COUNT }, (_, i) => images[i] ?? null);
+
+// Điền các ảnh mới bắt đầu từ slot được thả, tràn sang các slot phía sau
+export const placeInSlots = (images: (ImageFile | null)[], startIndex: number, incoming: ImageFile[]) => {
+  const next = normalizeSlots(images);
+  incoming.slice(0, IMAGE_SLOT_COUNT - startIndex).forEach((img, i) => { next[startIndex + i] = img; });
+  return next;
+};
+
+// Chỉ điền vào các slot còn trống, giữ nguyên ảnh đã có
+export const fillEmptySlots = (images: (ImageFile | null)[], incoming: ImageFile[]) => {
+  const queue = [...incoming];
+  return normalizeSlots(images).map(img => img ?? queue.shift() ?? null);
+};
+
+export const swapSlots = (images: (ImageFile | null)[], from: number, to: number) => {
+  const next = normalizeSlots(images);
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
+
+export const clearSlot = (images: (ImageFile | null)[], index: number) => {
+  const next = normalizeSlots(images);
+  next[index] = null;
+  return next;
+};
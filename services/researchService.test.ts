@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseBsr, parseListingsJson, parseLocaleNumber, rankListings } from './researchService';
+
+describe('parseLocaleNumber', () => {
+  it('đọc được dấu nghìn/thập phân theo từng locale', () => {
+    expect(parseLocaleNumber('1,234.5')).toBe(1234.5);
+    expect(parseLocaleNumber('1.234,5')).toBe(1234.5);
+    expect(parseLocaleNumber('1 234,5')).toBe(1234.5);
+    expect(parseLocaleNumber("1'234'567")).toBe(1234567);
+    expect(parseLocaleNumber('1.234.567')).toBe(1234567);
+    expect(parseLocaleNumber('4,5')).toBe(4.5);
+    expect(parseLocaleNumber('abc')).toBeUndefined();
+  });
+});
+
+describe('parseBsr', () => {
+  it('lấy thứ hạng từ chuỗi BSR của Amazon ở nhiều locale', () => {
+    expect(parseBsr('#1,234 in Clothing, Shoes & Jewelry')).toBe(1234);
+    expect(parseBsr('#12.345 in Bekleidung')).toBe(12345);
+    expect(parseBsr('#1 234 in Vêtements')).toBe(1234);
+    expect(parseBsr(532)).toBe(532);
+  });
+
+  it('bỏ giá trị không phải thứ hạng hợp lệ', () => {
+    expect(parseBsr('4,5 out of 5 stars')).toBeUndefined();
+    expect(parseBsr(0)).toBeUndefined();
+    expect(parseBsr(12.5)).toBeUndefined();
+    expect(parseBsr({ rank: 3 })).toBeUndefined();
+  });
+});
+
+describe('parseListingsJson', () => {
+  it('chuẩn hóa trường chữ và đọc rank dạng mảng', () => {
+    const [listing] = parseListingsJson(JSON.stringify({
+      results: [{ asin: 12345, title: ' Cat Tee ', image: 'https://m.media-amazon.com/cat.jpg', bestsellers_rank: [{ rank: '#2,001 in Clothing' }], price: { raw: '$19.99' } }],
+    }));
+    expect(listing).toMatchObject({ asin: '12345', title: 'Cat Tee', thumbnail: 'https://m.media-amazon.com/cat.jpg', bsr: 2001, price: '$19.99' });
+  });
+
+  it('bỏ sản phẩm thiếu ảnh hoặc tiêu đề và xếp theo BSR', () => {
+    const listings = parseListingsJson(JSON.stringify([
+      { title: 'No image' },
+      { title: 'B', thumbnail: 'b.jpg', bsr: 500 },
+      { title: 'A', thumbnail: 'a.jpg', bsr: '1.200' },
+      { title: 'C', thumbnail: 'c.jpg', bsr: 20 },
+    ]));
+    expect(rankListings(listings).map(l => l.title)).toEqual(['C', 'B', 'A']);
+  });
+});
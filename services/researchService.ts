@@ -0,0 +1,163 @@
+import { ResearchListing, ResearchSettings } from "../types";
+import { getSetting, setSetting } from "./storageService";
+
+const SETTINGS_KEY = 'researchSettings';
+
+export const DEFAULT_RESEARCH_SETTINGS: ResearchSettings = {
+  source: 'paste',
+  endpoint: '',
+};
+
+export const MAX_LISTINGS = 40;
+
+const NUMBER_TEXT = /\d[\d,.'\u00a0\u202f]*/;
+const BSR_PATTERN = new RegExp(`#\\s?(${NUMBER_TEXT.source})\\s+in\\b`, 'i');
+// Khoảng trắng hẹp/không ngắt (fr, ru) và dấu nháy (de-CH) chỉ dùng để nhóm hàng nghìn
+const GROUP_SPACING = /['\u00a0\u202f\s]/g;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// "1,234.5" (en), "1.234,5" (de), "1 234,5" (fr). Chỉ có một loại dấu thì đó là dấu nghìn nếu lặp lại
+// hoặc đứng trước đúng 3 chữ số ("1,234", "1.234"), ngược lại là dấu thập phân ("4,5")
+export const parseLocaleNumber = (text: string): number | undefined => {
+  const raw = text.trim().replace(GROUP_SPACING, '');
+  if (!/^\d[\d,.]*$/.test(raw)) return undefined;
+  const lastComma = raw.lastIndexOf(',');
+  const lastDot = raw.lastIndexOf('.');
+  let decimal: ',' | '.' | null = null;
+  if (lastComma >= 0 && lastDot >= 0) {
+    decimal = lastComma > lastDot ? ',' : '.';
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const sep = lastComma >= 0 ? ',' : '.';
+    const digitsAfter = raw.length - raw.lastIndexOf(sep) - 1;
+    if (raw.split(sep).length === 2 && digitsAfter !== 3) decimal = sep;
+  }
+  if (decimal && raw.split(decimal).length > 2) return undefined;
+  const group = decimal === ',' ? /\./g : decimal === '.' ? /,/g : /[,.]/g;
+  const n = Number(raw.replace(group, '').replace(',', '.'));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// BSR là thứ hạng nên phải là số nguyên dương
+export const parseBsr = (value: unknown): number | undefined => {
+  const text = typeof value === 'string' ? value.match(BSR_PATTERN)?.[1] ?? value.match(NUMBER_TEXT)?.[0] : undefined;
+  const n = typeof value === 'number' ? value : text !== undefined ? parseLocaleNumber(text) : undefined;
+  return n !== undefined && Number.isInteger(n) && n > 0 ? n : undefined;
+};
+
+// Ảnh Amazon có hậu tố kích thước (._AC_UL320_.jpg); bỏ đi để lấy ảnh gốc làm reference
+export const fullSizeImageUrl = (url: string) => url.replace(/\._[^/]*_\.(jpg|jpeg|png|webp)$/i, '.$1');
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const pickValue = (item: JsonRecord, keys: string[]): unknown => {
+  for (const key of keys) {
+    if (item[key] !== undefined && item[key] !== null && item[key] !== '') return item[key];
+  }
+  return undefined;
+};
+
+// Trường dạng chữ; id số (ASIN/ID của một số API) được đổi thành chuỗi
+const pickString = (item: JsonRecord, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  }
+  return undefined;
+};
+
+const formatPrice = (value: unknown): string | undefined => {
+  if (typeof value === 'number') return `$${value.toFixed(2)}`;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (isRecord(value)) return formatPrice(pickValue(value, ['raw', 'value', 'amount']));
+  return undefined;
+};
+
+export const parseListingsJson = (text: string): ResearchListing[] => {
+  const data: unknown = JSON.parse(text);
+  const items = Array.isArray(data) ? data : isRecord(data) ? pickValue(data, ['results', 'items', 'products', 'listings', 'search_results']) ?? [] : [];
+  if (!Array.isArray(items)) throw new Error("JSON không có danh sách sản phẩm (results/items/products).");
+  return items.flatMap((item: unknown): ResearchListing[] => {
+    if (!isRecord(item)) return [];
+    const thumbnail = pickString(item, ['thumbnail', 'image', 'imageUrl', 'image_url', 'img', 'mainImage']);
+    const title = pickString(item, ['title', 'name', 'productTitle']);
+    if (!thumbnail || !title) return [];
+    // bestsellers_rank có thể là mảng [{ rank, category }]
+    const rank = pickValue(item, ['bsr', 'rank', 'salesRank', 'sales_rank', 'bestSellersRank', 'bestsellers_rank']);
+    const firstRank = Array.isArray(rank) ? rank[0] : rank;
+    return [{
+      id: newId(),
+      asin: pickString(item, ['asin', 'ASIN', 'id']),
+      title,
+      thumbnail,
+      bsr: parseBsr(isRecord(firstRank) ? firstRank.rank : firstRank),
+      price: formatPrice(pickValue(item, ['price', 'priceText', 'price_string'])),
+      url: pickString(item, ['url', 'link', 'productUrl']),
+    }];
+  });
+};
+
+// HTML trang kết quả tìm kiếm Amazon (Save Page As / copy outerHTML)
+export const parseListingsHtml = (html: string): ResearchListing[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const cards = Array.from(doc.querySelectorAll('[data-component-type="s-search-result"], [data-asin]'))
+    .filter(el => el.getAttribute('data-asin'));
+  const seen = new Set<string>();
+  return cards.flatMap(card => {
+    const asin = card.getAttribute('data-asin')!;
+    const img = card.querySelector<HTMLImageElement>('img.s-image, img');
+    const thumbnail = img?.getAttribute('src');
+    if (seen.has(asin) || !thumbnail) return [];
+    seen.add(asin);
+    const title = card.querySelector('h2')?.textContent?.trim() || img?.getAttribute('alt') || asin;
+    const href = card.querySelector('h2 a, a.a-link-normal')?.getAttribute('href');
+    return [{
+      id: newId(),
+      asin,
+      title,
+      thumbnail,
+      bsr: parseBsr(card.textContent?.match(BSR_PATTERN)?.[0]),
+      price: card.querySelector('.a-price .a-offscreen')?.textContent?.trim() || undefined,
+      url: href ? new URL(href, 'https://www.amazon.com').toString() : undefined,
+    }];
+  });
+};
+
+// Có BSR thì xếp theo BSR, không thì giữ thứ tự xuất hiện (thứ hạng tìm kiếm)
+export const rankListings = (listings: ResearchListing[]): ResearchListing[] =>
+  listings
+    .map((listing, order) => ({ listing, order }))
+    .sort((a, b) => (a.listing.bsr ?? Infinity) - (b.listing.bsr ?? Infinity) || a.order - b.order)
+    .map(({ listing }) => listing)
+    .slice(0, MAX_LISTINGS);
+
+export const parseListings = (text: string): ResearchListing[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const listings = trimmed.startsWith('{') || trimmed.startsWith('[') ? parseListingsJson(trimmed) : parseListingsHtml(trimmed);
+  return rankListings(listings);
+};
+
+export const buildResearchUrl = (endpoint: string, query: string) => {
+  const encoded = encodeURIComponent(query);
+  if (endpoint.includes('{query}')) return endpoint.split('{query}').join(encoded);
+  return `${endpoint}${endpoint.includes('?') ? '&' : '?'}q=${encoded}`;
+};
+
+export const fetchListings = async (endpoint: string, query: string, signal?: AbortSignal): Promise<ResearchListing[]> => {
+  const response = await fetch(buildResearchUrl(endpoint, query), { signal });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return parseListings(await response.text());
+};
+
+export const loadResearchSettings = async (): Promise<ResearchSettings> => {
+  const saved = await getSetting<ResearchSettings>(SETTINGS_KEY);
+  return { ...DEFAULT_RESEARCH_SETTINGS, ...saved };
+};
+
+export const saveResearchSettings = async (settings: ResearchSettings): Promise<void> => {
+  await setSetting(SETTINGS_KEY, settings);
+};
@@ -0,0 +1,38 @@
+import { BatchItem, ResultPick } from "../types";
+import { ResultMode, ResultRef, resultsKey, slotKey } from "./historyService";
+
+export type ReviewItem = ResultRef;
+
+export const getPick = (batch: BatchItem, mode: ResultMode, slot: number): ResultPick =>
+  batch.picks?.[slotKey(mode, slot)] ?? {};
+
+export const setPick = (batch: BatchItem, mode: ResultMode, slot: number, patch: Partial<ResultPick>): BatchItem => {
+  const next = { ...getPick(batch, mode, slot), ...patch };
+  const picks = { ...batch.picks };
+  if (next.status === undefined && next.rating === undefined) delete picks[slotKey(mode, slot)];
+  else picks[slotKey(mode, slot)] = next;
+  return { ...batch, picks };
+};
+
+export const togglePickStatus = (batch: BatchItem, mode: ResultMode, slot: number, status: 'favorite' | 'rejected'): BatchItem =>
+  setPick(batch, mode, slot, { status: getPick(batch, mode, slot).status === status ? undefined : status });
+
+// Kết quả của mode bị generate lại thì đánh giá cũ không còn đúng ảnh
+export const clearPicks = (batch: BatchItem, mode: ResultMode): Record<string, ResultPick> =>
+  Object.fromEntries(Object.entries(batch.picks ?? {}).filter(([k]) => !k.startsWith(`${mode}:`)));
+
+export const isFavorite = (batch: BatchItem, mode: ResultMode, slot: number) =>
+  getPick(batch, mode, slot).status === 'favorite';
+
+export const countPicks = (batch: BatchItem) => {
+  const picks = Object.values(batch.picks ?? {});
+  return {
+    favorites: picks.filter(p => p.status === 'favorite').length,
+    rejected: picks.filter(p => p.status === 'rejected').length,
+  };
+};
+
+export const buildReviewItems = (batches: BatchItem[]): ReviewItem[] =>
+  batches.flatMap(batch => (['normal', 'pro'] as ResultMode[]).flatMap(mode =>
+    batch[resultsKey(mode)].map((_, slot) => ({ batchId: batch.id, mode, slot }))
+  ));
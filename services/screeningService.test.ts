@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { BatchItem } from '../types';
+import { normalizeTerm, parseBlocklist, parseBlocklistCsv, screenBatch, screenText } from './screeningService';
+
+describe('normalizeTerm', () => {
+  it('đổi đ/Đ thành d thay vì khoảng trắng', () => {
+    expect(normalizeTerm('Đà Lạt đẹp')).toBe('da lat dep');
+    expect(screenText('Quà tặng Đà Lạt', ['Da Lat'])).toEqual(['Da Lat']);
+  });
+
+  it('bỏ dấu và gộp ký tự đặc biệt', () => {
+    expect(normalizeTerm('Pokémon / Star-Wars')).toBe('pokemon star wars');
+  });
+});
+
+describe('screenBatch', () => {
+  it('quét prompt đã resolve chứ không chỉ customPrompt', () => {
+    const batch = { name: 'Summer Tee', customPrompt: 'sunset beach' } as BatchItem;
+    const result = screenBatch(batch, ['Disney'], 'Castle in Disney style, sunset beach');
+    expect(result.terms).toEqual(['Disney']);
+    expect(result.matches.map(m => m.field)).toEqual(['prompt']);
+  });
+});
+
+describe('parseBlocklist', () => {
+  it('giữ nguyên cụm từ có dấu phẩy khi nhập theo dòng', () => {
+    expect(parseBlocklist('Peanuts, Snoopy & Friends\r\n# ghi chú\nDisney\n\ndisney\n')).toEqual(['Peanuts, Snoopy & Friends', 'Disney']);
+  });
+
+  it('file CSV chỉ lấy cột đầu', () => {
+    expect(parseBlocklistCsv('Term,Note\n"Snoopy, Inc",brand\nNBA,league\n')).toEqual(['Term', 'Snoopy, Inc', 'NBA']);
+  });
+});
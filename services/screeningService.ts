@@ -0,0 +1,104 @@
+import { BatchItem, PromptTemplate, ScreeningSettings } from "../types";
+import { parseCSV, toCSV } from "./csvParser";
+import { resolveBatchPrompt } from "./promptTemplateService";
+import { getSetting, setSetting } from "./storageService";
+
+const SETTINGS_KEY = 'screeningSettings';
+
+// Danh sách khởi đầu; nên import blocklist đầy đủ của team (mỗi dòng một từ)
+export const DEFAULT_BLOCKLIST = [
+  'Disney', 'Marvel', 'Star Wars', 'Pixar', 'Mickey Mouse', 'Harry Potter', 'Hogwarts', 'Pokemon', 'Pikachu',
+  'Nintendo', 'Super Mario', 'Hello Kitty', 'Barbie', 'Sesame Street', 'Peanuts', 'Snoopy', 'Looney Tunes',
+  'DC Comics', 'Batman', 'Superman', 'Spider-Man', 'Avengers', 'Stranger Things', 'Friends', 'Grinch',
+  'NFL', 'NBA', 'MLB', 'NHL', 'NCAA', 'FIFA', 'Olympics', 'Super Bowl',
+  'Nike', 'Adidas', 'Coca-Cola', 'Harley-Davidson', 'Jeep', 'John Deere', 'Taylor Swift', 'Swiftie',
+];
+
+export const DEFAULT_SCREENING_SETTINGS: ScreeningSettings = {
+  mode: 'flag',
+  terms: DEFAULT_BLOCKLIST,
+};
+
+export interface ScreeningMatch {
+  field: 'name' | 'prompt';
+  terms: string[];
+}
+
+export interface ScreeningResult {
+  terms: string[];
+  matches: ScreeningMatch[];
+}
+
+// Bỏ dấu, chữ thường, ký tự không phải chữ/số thành khoảng trắng: "Pokémon", "star-wars" vẫn khớp.
+// "đ" không tách được bằng NFD nên phải đổi sang "d" trước
+export const normalizeTerm = (text: string) =>
+  text.replace(/[đĐ]/g, 'd').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// So khớp nguyên từ để "Friends" không bắt nhầm "Boyfriends"
+export const screenText = (text: string | undefined, terms: string[]): string[] => {
+  if (!text) return [];
+  const haystack = ` ${normalizeTerm(text)} `;
+  return terms.filter(term => {
+    const needle = normalizeTerm(term);
+    return needle !== '' && haystack.includes(` ${needle} `);
+  });
+};
+
+// prompt là prompt đã resolve (template + cột sheet), đúng nội dung gửi cho model
+export const screenBatch = (batch: BatchItem, terms: string[], prompt: string | undefined): ScreeningResult => {
+  const matches: ScreeningMatch[] = [
+    { field: 'name' as const, terms: screenText(batch.name, terms) },
+    { field: 'prompt' as const, terms: screenText(prompt, terms) },
+  ].filter(m => m.terms.length > 0);
+  return { terms: Array.from(new Set(matches.flatMap(m => m.terms))), matches };
+};
+
+export const isBlocked = (batch: BatchItem, settings: ScreeningSettings, prompt: string | undefined) =>
+  settings.mode === 'block' && screenBatch(batch, settings.terms, prompt).terms.length > 0;
+
+const dedupeTerms = (terms: string[]) => {
+  const seen = new Set<string>();
+  return terms.filter(term => {
+    const key = normalizeTerm(term);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const cleanTerms = (terms: string[]) => dedupeTerms(terms.map(term => term.trim()).filter(term => !term.startsWith('#')));
+
+// Textarea và file .txt: mỗi dòng một từ, giữ nguyên dấu phẩy trong cụm từ; dòng bắt đầu bằng # là ghi chú
+export const parseBlocklist = (text: string): string[] =>
+  cleanTerms(text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/));
+
+// File .csv: lấy cột đầu (cụm từ có dấu phẩy phải nằm trong ngoặc kép)
+export const parseBlocklistCsv = (text: string): string[] =>
+  cleanTerms(parseCSV(text).map(row => row[0] ?? ''));
+
+export const mergeBlocklists = (current: string[], incoming: string[]) => dedupeTerms([...current, ...incoming]);
+
+export const buildScreeningReport = (batches: BatchItem[], settings: ScreeningSettings, templates: PromptTemplate[]): string => {
+  const rows = batches.map(batch => {
+    const prompt = resolveBatchPrompt(batch, templates);
+    const result = screenBatch(batch, settings.terms, prompt);
+    const status = result.terms.length === 0 ? 'Clean' : settings.mode === 'block' ? 'Blocked' : 'Flagged';
+    return [
+      batch.name,
+      status,
+      result.terms.join('; '),
+      result.matches.map(m => m.field).join('; '),
+      prompt ?? '',
+    ];
+  });
+  return toCSV([['Batch', 'Status', 'Matched Terms', 'Fields', 'Prompt'], ...rows]);
+};
+
+export const loadScreeningSettings = async (): Promise<ScreeningSettings> => {
+  const saved = await getSetting<ScreeningSettings>(SETTINGS_KEY);
+  return { ...DEFAULT_SCREENING_SETTINGS, ...saved };
+};
+
+export const saveScreeningSettings = async (settings: ScreeningSettings): Promise<void> => {
+  await setSetting(SETTINGS_KEY, settings);
+};
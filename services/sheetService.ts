@@ -0,0 +1,97 @@
+import { ColumnMapping } from "../types";
+import { getSetting, setSetting } from "./storageService";
+import { normalizeVariableName } from "./promptTemplateService";
+
+export const IMAGE_SLOT_COUNT = 5;
+
+// Cấu trúc sheet mẫu: A = tên, L (hoặc B) = prompt, P-T = 5 ảnh tham khảo
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  name: 0,
+  prompt: [11, 1],
+  images: [15, 16, 17, 18, 19],
+  tags: null,
+  productType: null,
+};
+
+export interface MappedRow {
+  name: string;
+  prompt?: string;
+  imageUrls: (string | null)[];
+  tags: string[];
+  productType?: string;
+}
+
+export const parseSheetUrl = (url: string) => {
+  if (!url.includes('docs.google.com/spreadsheets')) {
+    throw new Error("Vui lòng nhập URL Google Sheet hợp lệ.");
+  }
+  const sheetIdMatch = url.match(/\/d\/([a-zA-Z0-9-_]+)/);
+  const gidMatch = url.match(/gid=([0-9]+)/);
+  if (!sheetIdMatch) throw new Error("Không tìm thấy Sheet ID trong URL.");
+  return { sheetId: sheetIdMatch[1], gid: gidMatch ? gidMatch[1] : '0' };
+};
+
+export const fetchSheetCsv = async (url: string): Promise<string> => {
+  const { sheetId, gid } = parseSheetUrl(url);
+  const csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv&gid=${gid}`;
+  const response = await fetch(csvUrl);
+  if (!response.ok) throw new Error(`Không tải được CSV (HTTP ${response.status}). Sheet đã được chia sẻ công khai chưa?`);
+  return response.text();
+};
+
+const HEADER_HINTS: Record<'name' | 'prompt' | 'image' | 'tags' | 'productType', RegExp> = {
+  name: /^(name|ten|title|keyword|y_tuong|idea)/,
+  prompt: /prompt/,
+  image: /(image|img|anh|hinh|url|link|ref)/,
+  tags: /(tag|keyword)s?$/,
+  productType: /(product|san_pham|loai|type)/,
+};
+
+// Đoán mapping từ header; cột nào không nhận ra thì giữ theo cấu trúc sheet mẫu
+export const guessColumnMapping = (header: string[]): ColumnMapping => {
+  const keys = header.map(normalizeVariableName);
+  const find = (pattern: RegExp, exclude: number[] = []) =>
+    keys.findIndex((k, i) => !!k && pattern.test(k) && !exclude.includes(i));
+
+  const name = find(HEADER_HINTS.name);
+  const prompt = keys.map((k, i) => HEADER_HINTS.prompt.test(k) ? i : -1).filter(i => i >= 0);
+  const images = keys.map((k, i) => HEADER_HINTS.image.test(k) && i !== name ? i : -1).filter(i => i >= 0).slice(0, IMAGE_SLOT_COUNT);
+  const tags = find(HEADER_HINTS.tags, [name]);
+  const productType = find(HEADER_HINTS.productType, [name, ...prompt, ...images]);
+
+  return {
+    name: name >= 0 ? name : DEFAULT_COLUMN_MAPPING.name,
+    prompt: prompt.length > 0 ? prompt : DEFAULT_COLUMN_MAPPING.prompt,
+    images: images.length > 0 ? images : DEFAULT_COLUMN_MAPPING.images,
+    tags: tags >= 0 ? tags : null,
+    productType: productType >= 0 ? productType : null,
+  };
+};
+
+export const mapRow = (row: string[], mapping: ColumnMapping): MappedRow => {
+  const cell = (index: number | null) => (index === null || index < 0 ? '' : (row[index] ?? '').trim());
+  const tagCell = cell(mapping.tags);
+  return {
+    name: cell(mapping.name),
+    prompt: mapping.prompt.map(cell).find(v => !!v) || undefined,
+    imageUrls: Array.from({ length: IMAGE_SLOT_COUNT }, (_, i) => {
+      const url = cell(mapping.images[i] ?? null);
+      return url.startsWith('http') ? url : null;
+    }),
+    tags: tagCell ? tagCell.split(/[,;|]/).map(t => t.trim()).filter(Boolean) : [],
+    productType: cell(mapping.productType) || undefined,
+  };
+};
+
+const mappingKey = (sheetUrl: string) => {
+  const { sheetId, gid } = parseSheetUrl(sheetUrl);
+  return `columnMapping:${sheetId}:${gid}`;
+};
+
+export const loadColumnMapping = async (sheetUrl: string): Promise<ColumnMapping | undefined> => {
+  return getSetting<ColumnMapping>(mappingKey(sheetUrl));
+};
+
+export const saveColumnMapping = async (sheetUrl: string, mapping: ColumnMapping): Promise<void> => {
+  await setSetting(mappingKey(sheetUrl), mapping);
+};
@@ -0,0 +1,138 @@
+import { BatchItem, Project, ProjectSummary, UsageRecord } from "../types";
+
+const DB_NAME = 'pod-genius';
+const DB_VERSION = 3;
+const PROJECT_STORE = 'projects';
+// Chỉ id/name/updatedAt: danh sách project không phải đọc cả ảnh base64 trong PROJECT_STORE
+const PROJECT_META_STORE = 'projectMeta';
+const KV_STORE = 'kv';
+const USAGE_STORE = 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(PROJECT_META_STORE)) {
+        const metaStore = db.createObjectStore(PROJECT_META_STORE, { keyPath: 'id' });
+        // Project tạo trước khi có store metadata: đọc từng bản ghi một lần để dựng summary
+        const cursorRequest = request.transaction!.objectStore(PROJECT_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          metaStore.put(toSummary(cursor.value as Project));
+          cursor.continue();
+        };
+      }
+      if (!db.objectStoreNames.contains(KV_STORE)) {
+        db.createObjectStore(KV_STORE);
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Ghi/xóa nhiều store trong cùng một transaction để project và metadata không lệch nhau
+const runAll = async (storeNames: string[], action: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, 'readwrite');
+    action(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toSummary = ({ id, name, updatedAt }: Project): ProjectSummary => ({ id, name, updatedAt });
+
+// Batch đang chạy dở khi tab bị đóng sẽ không bao giờ tự hoàn thành
+const normalizeBatch = (batch: BatchItem): BatchItem => (
+  batch.status === 'queued' || batch.status === 'processing' || batch.status === 'stopping'
+    ? { ...batch, status: 'idle', jobs: undefined }
+    : batch
+);
+
+export const createProject = (name: string, sheetUrl: string = ''): Project => {
+  const now = Date.now();
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name,
+    sheetUrl,
+    batches: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const summaries = await run<ProjectSummary[]>(PROJECT_META_STORE, 'readonly', store => store.getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const project = await run<Project | undefined>(PROJECT_STORE, 'readonly', store => store.get(id));
+  if (!project) return null;
+  return { ...project, batches: project.batches.map(normalizeBatch) };
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const saved = { ...project, updatedAt: Date.now() };
+  await runAll([PROJECT_STORE, PROJECT_META_STORE], tx => {
+    tx.objectStore(PROJECT_STORE).put(saved);
+    tx.objectStore(PROJECT_META_STORE).put(toSummary(saved));
+  });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runAll([PROJECT_STORE, PROJECT_META_STORE], tx => {
+    tx.objectStore(PROJECT_STORE).delete(id);
+    tx.objectStore(PROJECT_META_STORE).delete(id);
+  });
+};
+
+export const getSetting = async <T>(key: string): Promise<T | undefined> => {
+  return run<T | undefined>(KV_STORE, 'readonly', store => store.get(key));
+};
+
+export const setSetting = async <T>(key: string, value: T): Promise<void> => {
+  await run(KV_STORE, 'readwrite', store => store.put(value, key));
+};
+
+export const addUsageRecord = async (record: UsageRecord): Promise<void> => {
+  await run(USAGE_STORE, 'readwrite', store => store.put(record));
+};
+
+export const listUsageRecords = async (): Promise<UsageRecord[]> => {
+  const records = await run<UsageRecord[]>(USAGE_STORE, 'readonly', store => store.getAll());
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+  await run(USAGE_STORE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { lanczosResize, upscaleDimensions, upscaleImage } from './upscaleService';
+
+// Node không có canvas; chỉ cần kích thước ảnh cho các trường hợp không phóng to
+vi.mock('./imageUtils', () => ({
+  loadImage: async (src: string) => {
+    const [width, height] = src.split('x').map(Number);
+    return { naturalWidth: width, naturalHeight: height };
+  },
+}));
+
+const solid = (width: number, height: number, rgba: number[]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+};
+
+describe('lanczosResize', () => {
+  it('giữ nguyên màu của ảnh một màu khi phóng to', () => {
+    const out = lanczosResize(solid(5, 3, [200, 40, 10, 255]), 15, 9);
+    expect(out).toHaveLength(15 * 9 * 4);
+    for (let i = 0; i < out.length; i += 4) {
+      expect([...out.slice(i, i + 4)]).toEqual([200, 40, 10, 255]);
+    }
+  });
+
+  it('không để màu của pixel trong suốt lan sang pixel bên cạnh', () => {
+    const source = solid(4, 1, [255, 255, 255, 255]);
+    source.data.set([255, 0, 0, 0], 0);
+    const out = lanczosResize(source, 8, 2);
+    for (let i = 0; i < out.length; i += 4) {
+      if (out[i + 3] > 128) expect(out[i + 1]).toBeGreaterThan(240);
+    }
+  });
+
+  it('ghi thẳng vào buffer đích được truyền vào', () => {
+    const target = new Uint8ClampedArray(6 * 6 * 4);
+    expect(lanczosResize(solid(3, 3, [1, 2, 3, 255]), 6, 6, target)).toBe(target);
+  });
+});
+
+describe('upscaleDimensions', () => {
+  it('giới hạn cạnh dài theo maxDimension', () => {
+    expect(upscaleDimensions(2048, 1024, 4, 4096)).toEqual({ width: 4096, height: 2048 });
+    expect(upscaleDimensions(1000, 500, 2)).toEqual({ width: 2000, height: 1000 });
+  });
+});
+
+describe('upscaleImage', () => {
+  it('báo backend none và trả ảnh gốc khi ảnh đã ở kích thước tối đa', async () => {
+    expect(await upscaleImage('8192x4000', 2)).toEqual({ image: '8192x4000', width: 8192, height: 4000, backend: 'none' });
+  });
+
+  it('báo backend none khi đường CPU không thể phóng to thêm', async () => {
+    expect(await upscaleImage('5000x3000', 2, 'cpu')).toEqual({ image: '5000x3000', width: 5000, height: 3000, backend: 'none' });
+  });
+});
@@ -0,0 +1,254 @@
+import { loadImage, createCanvas, imageToCanvas } from "./imageUtils";
+
+export type UpscaleBackend = 'webgl' | 'cpu';
+
+export interface UpscaleResult {
+  image: string;
+  width: number;
+  height: number;
+  // 'none': ảnh đã chạm giới hạn kích thước nên được trả về nguyên vẹn
+  backend: UpscaleBackend | 'none';
+}
+
+export const UPSCALE_FACTORS = [2, 3, 4];
+
+// Cạnh dài tối đa sau khi phóng to; lớn hơn nữa thì canvas của nhiều trình duyệt không encode được
+export const UPSCALE_MAX_DIMENSION = 8192;
+// Đường CPU chạy trên main thread và giữ cả ảnh đích trong bộ nhớ nên giới hạn thấp hơn
+export const CPU_UPSCALE_MAX_DIMENSION = 4096;
+
+const LANCZOS_A = 3;
+
+const lanczos = (x: number) => {
+  if (x === 0) return 1;
+  if (x <= -LANCZOS_A || x >= LANCZOS_A) return 0;
+  const px = Math.PI * x;
+  return (LANCZOS_A * Math.sin(px) * Math.sin(px / LANCZOS_A)) / (px * px);
+};
+
+interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+interface AxisWeights {
+  starts: Int32Array;
+  // LANCZOS_A * 2 trọng số đã chuẩn hóa cho mỗi vị trí đích
+  weights: Float32Array;
+}
+
+const TAPS = LANCZOS_A * 2;
+
+const axisWeights = (srcLen: number, target: number): AxisWeights => {
+  const scale = srcLen / target;
+  const starts = new Int32Array(target);
+  const weights = new Float32Array(target * TAPS);
+  for (let t = 0; t < target; t++) {
+    const center = (t + 0.5) * scale - 0.5;
+    const start = Math.floor(center) - LANCZOS_A + 1;
+    let sum = 0;
+    for (let k = 0; k < TAPS; k++) sum += weights[t * TAPS + k] = lanczos(center - (start + k));
+    for (let k = 0; k < TAPS; k++) weights[t * TAPS + k] /= sum;
+    starts[t] = start;
+  }
+  return { starts, weights };
+};
+
+// Lanczos-3 tách hai chiều trên dữ liệu premultiplied. Chiều ngang được tính theo từng dòng nguồn
+// và chỉ giữ vài dòng đang dùng, nên bộ nhớ phụ chỉ cỡ vài dòng đích thay vì cả ảnh dạng float.
+export const lanczosResize = (source: Pixels, targetWidth: number, targetHeight: number, out = new Uint8ClampedArray(targetWidth * targetHeight * 4)): Uint8ClampedArray => {
+  const { width, height, data } = source;
+  const horizontal = axisWeights(width, targetWidth);
+  const vertical = axisWeights(height, targetHeight);
+  const rows = new Map<number, Float32Array>();
+
+  const resampleRow = (y: number) => {
+    const row = new Float32Array(targetWidth * 4);
+    for (let t = 0; t < targetWidth; t++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < TAPS; k++) {
+        const x = Math.min(width - 1, Math.max(0, horizontal.starts[t] + k));
+        const i = (y * width + x) * 4;
+        const w = horizontal.weights[t * TAPS + k] * data[i + 3];
+        r += data[i] * w;
+        g += data[i + 1] * w;
+        b += data[i + 2] * w;
+        a += w;
+      }
+      row[t * 4] = r / 255;
+      row[t * 4 + 1] = g / 255;
+      row[t * 4 + 2] = b / 255;
+      row[t * 4 + 3] = a;
+    }
+    return row;
+  };
+
+  for (let t = 0; t < targetHeight; t++) {
+    const start = vertical.starts[t];
+    for (const y of rows.keys()) if (y < start) rows.delete(y);
+    const taps: Float32Array[] = [];
+    for (let k = 0; k < TAPS; k++) {
+      const y = Math.min(height - 1, Math.max(0, start + k));
+      let row = rows.get(y);
+      if (!row) rows.set(y, row = resampleRow(y));
+      taps.push(row);
+    }
+    for (let x = 0; x < targetWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < TAPS; k++) {
+        const w = vertical.weights[t * TAPS + k];
+        const i = x * 4;
+        r += taps[k][i] * w;
+        g += taps[k][i + 1] * w;
+        b += taps[k][i + 2] * w;
+        a += taps[k][i + 3] * w;
+      }
+      const o = (t * targetWidth + x) * 4;
+      const alpha = Math.min(255, Math.max(0, a));
+      const inv = alpha > 0 ? 255 / alpha : 0;
+      out[o] = r * inv;
+      out[o + 1] = g * inv;
+      out[o + 2] = b * inv;
+      out[o + 3] = alpha;
+    }
+  }
+  return out;
+};
+
+const VERTEX_SHADER = `
+attribute vec2 position;
+varying vec2 uv;
+void main() {
+  uv = position * 0.5 + 0.5;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+// Lanczos-3 2D (6x6 tap) trên texture premultiplied
+const FRAGMENT_SHADER = `
+precision highp float;
+uniform sampler2D source;
+uniform vec2 sourceSize;
+varying vec2 uv;
+const float PI = 3.14159265;
+float lanczos(float x) {
+  if (abs(x) < 1e-5) return 1.0;
+  if (abs(x) >= 3.0) return 0.0;
+  float px = PI * x;
+  return 3.0 * sin(px) * sin(px / 3.0) / (px * px);
+}
+void main() {
+  vec2 pos = vec2(uv.x, 1.0 - uv.y) * sourceSize - 0.5;
+  vec2 base = floor(pos);
+  vec4 color = vec4(0.0);
+  float total = 0.0;
+  for (int y = -2; y <= 3; y++) {
+    for (int x = -2; x <= 3; x++) {
+      vec2 tap = base + vec2(float(x), float(y));
+      float w = lanczos(pos.x - tap.x) * lanczos(pos.y - tap.y);
+      color += texture2D(source, (clamp(tap, vec2(0.0), sourceSize - 1.0) + 0.5) / sourceSize) * w;
+      total += w;
+    }
+  }
+  gl_FragColor = clamp(color / total, 0.0, 1.0);
+}`;
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error("Không tạo được shader.");
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) || "Lỗi compile shader.");
+  return shader;
+};
+
+const upscaleWebGl = (img: HTMLImageElement, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const gl = canvas.getContext('webgl', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+  if (!gl) throw new Error("WebGL không khả dụng.");
+  try {
+    return renderWebGl(gl, img, width, height);
+  } finally {
+    // Trình duyệt chỉ cho khoảng 16 context sống cùng lúc: trả context ngay sau khi đọc xong
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+};
+
+const renderWebGl = (gl: WebGLRenderingContext, img: HTMLImageElement, width: number, height: number): HTMLCanvasElement => {
+  const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+  const maxViewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+  if (img.naturalWidth > maxSize || img.naturalHeight > maxSize || width > maxViewport[0] || height > maxViewport[1]) {
+    throw new Error("Ảnh vượt giới hạn texture của GPU.");
+  }
+
+  const program = gl.createProgram();
+  if (!program) throw new Error("Không tạo được WebGL program.");
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(program) || "Lỗi link shader.");
+  gl.useProgram(program);
+
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, 'position');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, img);
+  // Ảnh không phải lũy thừa của 2 nên phải dùng CLAMP + NEAREST (WebGL1)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+  gl.uniform2f(gl.getUniformLocation(program, 'sourceSize'), img.naturalWidth, img.naturalHeight);
+  gl.viewport(0, 0, width, height);
+  gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  if (gl.getError() !== gl.NO_ERROR) throw new Error("WebGL render lỗi.");
+
+  // Chép sang canvas 2D vì drawing buffer mất cùng context
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(gl.canvas as HTMLCanvasElement, 0, 0);
+  return canvas;
+};
+
+const upscaleCpu = (img: HTMLImageElement, width: number, height: number): HTMLCanvasElement => {
+  const { ctx: sourceCtx } = imageToCanvas(img);
+  const source = sourceCtx.getImageData(0, 0, img.naturalWidth, img.naturalHeight);
+  const { canvas, ctx } = createCanvas(width, height);
+  const out = ctx.createImageData(width, height);
+  lanczosResize(source, width, height, out.data);
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+export const upscaleDimensions = (width: number, height: number, factor: number, maxDimension = UPSCALE_MAX_DIMENSION) => {
+  const scale = Math.min(factor, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+export const upscaleImage = async (src: string, factor: number, backend: UpscaleBackend = 'webgl'): Promise<UpscaleResult> => {
+  const img = await loadImage(src);
+  const { width, height } = upscaleDimensions(img.naturalWidth, img.naturalHeight, factor);
+  if (width <= img.naturalWidth) return { image: src, width: img.naturalWidth, height: img.naturalHeight, backend: 'none' };
+
+  if (backend === 'webgl') {
+    try {
+      const canvas = upscaleWebGl(img, width, height);
+      return { image: canvas.toDataURL('image/png'), width, height, backend: 'webgl' };
+    } catch (e) {
+      console.warn('Could not upscale with WebGL, falling back to CPU', e);
+    }
+  }
+  const cpu = upscaleDimensions(img.naturalWidth, img.naturalHeight, factor, CPU_UPSCALE_MAX_DIMENSION);
+  if (cpu.width <= img.naturalWidth) return { image: src, width: img.naturalWidth, height: img.naturalHeight, backend: 'none' };
+  const canvas = upscaleCpu(img, cpu.width, cpu.height);
+  return { image: canvas.toDataURL('image/png'), width: cpu.width, height: cpu.height, backend: 'cpu' };
+};
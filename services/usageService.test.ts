@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { UsageRecord } from '../types';
+import { DEFAULT_GENERATION_SETTINGS } from './geminiService';
+import { canAfford, createUsageRecord, estimateJobCost, estimateRunCost, formatUsd, isOverBudget, spentInScope, summarizeUsage } from './usageService';
+
+const NOW = new Date(2026, 9, 19, 12).getTime();
+const YESTERDAY = NOW - 24 * 60 * 60 * 1000;
+
+const record = (cost: number, patch: Partial<UsageRecord> = {}): UsageRecord => ({
+  ...createUsageRecord(
+    { projectId: 'p1', kind: 'generate' },
+    { provider: 'gemini', model: 'gemini-2.5-flash-image', outcome: 'success', latencyMs: 1000, cost },
+  ),
+  createdAt: NOW,
+  ...patch,
+});
+
+describe('spentInScope', () => {
+  const records = [record(0.1), record(0.2, { projectId: 'p2' }), record(0.4, { createdAt: YESTERDAY })];
+
+  it('scope day chỉ cộng chi phí hôm nay của mọi project', () => {
+    expect(spentInScope(records, { cap: 1, scope: 'day' }, 'p1', NOW)).toBeCloseTo(0.3);
+  });
+
+  it('scope project cộng mọi ngày của project đang mở', () => {
+    expect(spentInScope(records, { cap: 1, scope: 'project' }, 'p1', NOW)).toBeCloseTo(0.5);
+  });
+});
+
+describe('budget', () => {
+  it('cap 0 là không giới hạn', () => {
+    expect(isOverBudget([record(100)], { cap: 0, scope: 'day' }, 'p1')).toBe(false);
+    expect(canAfford([record(100)], { cap: 0, scope: 'day' }, 'p1', 100, NOW)).toBe(true);
+  });
+
+  it('tính cả phần đã giữ chỗ cho job đang chạy', () => {
+    const budget = { cap: 0.5, scope: 'day' as const };
+    const records = [record(0.3)];
+    expect(canAfford(records, budget, 'p1', 0.134, NOW)).toBe(true);
+    expect(canAfford(records, budget, 'p1', 0.134 * 2, NOW)).toBe(false);
+  });
+});
+
+describe('estimate', () => {
+  it('model thường không gửi imageSize, Pro 4K tính theo giá 4K', () => {
+    expect(estimateJobCost(DEFAULT_GENERATION_SETTINGS, false)).toBe(0.039);
+    expect(estimateJobCost({ ...DEFAULT_GENERATION_SETTINGS, imageSize: '4K' }, true)).toBe(0.24);
+  });
+
+  it('nhân theo số ảnh mỗi batch và cộng settings riêng từng batch', () => {
+    const settings = [DEFAULT_GENERATION_SETTINGS, { ...DEFAULT_GENERATION_SETTINGS, provider: 'mock', normalModel: 'mock-fast', proModel: 'mock-pro' }];
+    expect(estimateRunCost(settings, true, 4)).toBeCloseTo(0.134 * 4);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('gộp theo key, đếm lỗi và tính latency trung bình', () => {
+    const summary = summarizeUsage([record(0.1), record(0, { outcome: 'error', latencyMs: 3000 })], r => r.model);
+    expect(summary).toEqual([{ key: 'gemini-2.5-flash-image', label: 'gemini-2.5-flash-image', calls: 2, errors: 1, cost: 0.1, avgLatencyMs: 2000 }]);
+  });
+});
+
+describe('formatUsd', () => {
+  it('hiện 3 chữ số thập phân cho số tiền dưới 1 USD', () => {
+    expect(formatUsd(0.039)).toBe('$0.039');
+    expect(formatUsd(12.5)).toBe('$12.50');
+    expect(formatUsd(0)).toBe('$0.00');
+  });
+});
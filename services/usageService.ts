@@ -0,0 +1,82 @@
+import { GenerationSettings, UsageBudget, UsageRecord } from "../types";
+import { GenerationUsage } from "./geminiService";
+import { effectiveImageSize, getImageProvider } from "./imageProvider";
+import { getSetting, setSetting } from "./storageService";
+
+const BUDGET_KEY = 'usageBudget';
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { cap: 0, scope: 'day' };
+
+export interface UsageSummary {
+  key: string;
+  label: string;
+  calls: number;
+  errors: number;
+  cost: number;
+  avgLatencyMs: number;
+}
+
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 1 ? 3 : 2)}`;
+
+// Tạo record đồng bộ để budget tính ngay chi phí vừa phát sinh; lưu IndexedDB chạy nền sau đó
+export const createUsageRecord = (
+  context: Pick<UsageRecord, 'projectId' | 'batchId' | 'batchName' | 'kind'>,
+  usage: GenerationUsage,
+): UsageRecord => ({
+  id: Math.random().toString(36).substr(2, 9),
+  createdAt: Date.now(),
+  ...context,
+  ...usage,
+});
+
+export const summarizeUsage = (records: UsageRecord[], keyOf: (r: UsageRecord) => string, labelOf: (r: UsageRecord) => string = keyOf): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary & { latencyTotal: number }>();
+  for (const r of records) {
+    const key = keyOf(r);
+    const group = groups.get(key) ?? { key, label: labelOf(r), calls: 0, errors: 0, cost: 0, avgLatencyMs: 0, latencyTotal: 0 };
+    group.calls++;
+    if (r.outcome === 'error') group.errors++;
+    group.cost += r.cost;
+    group.latencyTotal += r.latencyMs;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).map(({ latencyTotal, ...g }) => ({ ...g, avgLatencyMs: latencyTotal / g.calls }));
+};
+
+export const spentInScope = (records: UsageRecord[], budget: UsageBudget, projectId: string | undefined, now = Date.now()) => {
+  const today = dayKey(now);
+  return records
+    .filter(r => budget.scope === 'day' ? dayKey(r.createdAt) === today : r.projectId === projectId)
+    .reduce((sum, r) => sum + r.cost, 0);
+};
+
+export const isOverBudget = (records: UsageRecord[], budget: UsageBudget, projectId: string | undefined) =>
+  budget.cap > 0 && spentInScope(records, budget, projectId) >= budget.cap;
+
+// reserved: chi phí ước tính của các job đã gửi đi nhưng chưa ghi usage
+export const canAfford = (records: UsageRecord[], budget: UsageBudget, projectId: string | undefined, reserved: number, now = Date.now()) =>
+  budget.cap <= 0 || spentInScope(records, budget, projectId, now) + reserved <= budget.cap;
+
+export const estimateJobCost = (settings: GenerationSettings, isPro: boolean) => {
+  const provider = getImageProvider(settings.provider);
+  const model = isPro ? settings.proModel : settings.normalModel;
+  return provider.estimateCost(model, effectiveImageSize(provider, settings, isPro));
+};
+
+// Ước tính trước khi chạy: mỗi batch dùng settings riêng (provider/model/size có thể khác nhau)
+export const estimateRunCost = (batchSettings: GenerationSettings[], isPro: boolean, outputsPerBatch: number) =>
+  batchSettings.reduce((sum, settings) => sum + estimateJobCost(settings, isPro) * outputsPerBatch, 0);
+
+export const loadUsageBudget = async (): Promise<UsageBudget> => {
+  const saved = await getSetting<UsageBudget>(BUDGET_KEY);
+  return { ...DEFAULT_USAGE_BUDGET, ...saved };
+};
+
+export const saveUsageBudget = async (budget: UsageBudget): Promise<void> => {
+  await setSetting(BUDGET_KEY, budget);
+};
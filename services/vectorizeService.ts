@@ -0,0 +1,211 @@
+import { BatchItem, VectorTrace } from "../types";
+import { loadImage, createCanvas } from "./imageUtils";
+import { getHeadId, ResultMode, slotKey } from "./historyService";
+
+export interface VectorizeOptions {
+  colors: number;
+  // Cạnh dài khi trace; ảnh lớn hơn được thu nhỏ (SVG vẫn giữ kích thước gốc qua viewBox)
+  maxDimension: number;
+  // Vùng nhỏ hơn số pixel này bị bỏ qua (khử nhiễu)
+  minArea: number;
+  // Sai số (pixel) khi làm thẳng đường bậc thang
+  tolerance: number;
+}
+
+export const DEFAULT_VECTORIZE_OPTIONS: VectorizeOptions = {
+  colors: 8,
+  maxDimension: 1024,
+  minArea: 12,
+  tolerance: 0.8,
+};
+
+type Point = [number, number];
+
+const ALPHA_CUTOFF = 128;
+const KMEANS_ITERATIONS = 8;
+const KMEANS_SAMPLES = 20000;
+
+// K-means trên mẫu pixel đục, khởi tạo bằng các pixel rải đều
+export const quantizeColors = (data: Uint8ClampedArray, maxColors: number): number[][] => {
+  const opaque: number[] = [];
+  for (let i = 0; i < data.length; i += 4) if (data[i + 3] >= ALPHA_CUTOFF) opaque.push(i);
+  if (opaque.length === 0) return [];
+  const step = Math.max(1, Math.floor(opaque.length / KMEANS_SAMPLES));
+  const samples: number[][] = [];
+  for (let i = 0; i < opaque.length; i += step) {
+    const o = opaque[i];
+    samples.push([data[o], data[o + 1], data[o + 2]]);
+  }
+
+  const k = Math.min(maxColors, samples.length);
+  let centers = Array.from({ length: k }, (_, i) => [...samples[Math.floor((i * samples.length) / k)]]);
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const s of samples) {
+      const c = nearestColor(centers, s[0], s[1], s[2]);
+      sums[c][0] += s[0];
+      sums[c][1] += s[1];
+      sums[c][2] += s[2];
+      sums[c][3]++;
+    }
+    centers = sums.map((sum, i) => sum[3] > 0 ? [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]] : centers[i]);
+  }
+  return centers.map(c => c.map(Math.round));
+};
+
+const nearestColor = (palette: number[][], r: number, g: number, b: number) => {
+  let best = 0, bestDist = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const dr = palette[i][0] - r, dg = palette[i][1] - g, db = palette[i][2] - b;
+    const dist = dr * dr + dg * dg + db * db;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  }
+  return best;
+};
+
+export const indexPixels = (data: Uint8ClampedArray, palette: number[][]): Int16Array => {
+  const out = new Int16Array(data.length / 4);
+  for (let p = 0; p < out.length; p++) {
+    const i = p * 4;
+    out[p] = data[i + 3] < ALPHA_CUTOFF ? -1 : nearestColor(palette, data[i], data[i + 1], data[i + 2]);
+  }
+  return out;
+};
+
+// Dò biên theo cạnh pixel: mỗi cạnh giữa pixel thuộc màu và pixel khác màu là một đoạn có hướng
+// (vùng màu luôn nằm bên phải), nối các đoạn thành vòng khép kín. Vòng ngoài và lỗ có chiều ngược nhau.
+export const traceRegions = (indices: Int16Array, width: number, height: number, color: number): Point[][] => {
+  const at = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && indices[y * width + x] === color;
+  const key = (x: number, y: number) => y * (width + 1) + x;
+  const edges = new Map<number, number[]>();
+  const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+    const from = key(x1, y1);
+    const list = edges.get(from);
+    if (list) list.push(key(x2, y2));
+    else edges.set(from, [key(x2, y2)]);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!at(x, y)) continue;
+      if (!at(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!at(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!at(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!at(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const loops: Point[][] = [];
+  for (const [start, targets] of edges) {
+    while (targets.length > 0) {
+      const loop: Point[] = [];
+      let current = start;
+      let next = targets.pop()!;
+      loop.push([current % (width + 1), Math.floor(current / (width + 1))]);
+      while (next !== start) {
+        loop.push([next % (width + 1), Math.floor(next / (width + 1))]);
+        current = next;
+        const out = edges.get(current);
+        if (!out || out.length === 0) break;
+        next = out.pop()!;
+      }
+      loops.push(loop);
+    }
+  }
+  return loops;
+};
+
+export const polygonArea = (points: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+};
+
+const distanceToSegment = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+  const dx = bx - ax, dy = by - ay;
+  const len = dx * dx + dy * dy;
+  if (len === 0) return Math.hypot(px - ax, py - ay);
+  const t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / len));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+const douglasPeucker = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+  let maxDist = 0, index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (d > maxDist) {
+      maxDist = d;
+      index = i;
+    }
+  }
+  if (maxDist <= tolerance) return [points[0], points[points.length - 1]];
+  const left = douglasPeucker(points.slice(0, index + 1), tolerance);
+  return [...left.slice(0, -1), ...douglasPeucker(points.slice(index), tolerance)];
+};
+
+// Vòng kín được tách làm hai nửa để Douglas-Peucker có hai điểm neo cố định
+export const simplifyLoop = (loop: Point[], tolerance: number): Point[] => {
+  if (loop.length < 4 || tolerance <= 0) return loop;
+  const mid = Math.floor(loop.length / 2);
+  const first = douglasPeucker(loop.slice(0, mid + 1), tolerance);
+  const second = douglasPeucker([...loop.slice(mid), loop[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+const toHex = (color: number[]) => `#${color.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+const formatNumber = (n: number) => Number.isInteger(n) ? String(n) : n.toFixed(2);
+
+export const vectorizeImageData = (image: { width: number; height: number; data: Uint8ClampedArray }, options: VectorizeOptions, outputWidth = image.width, outputHeight = image.height): string => {
+  const { width, height, data } = image;
+  const palette = quantizeColors(data, options.colors);
+  const indices = indexPixels(data, palette);
+  const scaleX = outputWidth / width;
+  const scaleY = outputHeight / height;
+
+  const paths = palette.map((color, c) => {
+    const loops = traceRegions(indices, width, height, c)
+      .filter(loop => Math.abs(polygonArea(loop)) >= options.minArea)
+      .map(loop => simplifyLoop(loop, options.tolerance))
+      .filter(loop => loop.length >= 3);
+    if (loops.length === 0) return '';
+    const d = loops
+      .map(loop => 'M' + loop.map(([x, y]) => `${formatNumber(x * scaleX)} ${formatNumber(y * scaleY)}`).join('L') + 'Z')
+      .join('');
+    return `<path fill="${toHex(color)}" fill-rule="evenodd" d="${d}"/>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${outputWidth}" height="${outputHeight}" viewBox="0 0 ${outputWidth} ${outputHeight}">${paths.join('')}</svg>`;
+};
+
+export const vectorizeImage = async (src: string, options: VectorizeOptions = DEFAULT_VECTORIZE_OPTIONS): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, options.maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const { ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  return vectorizeImageData(ctx.getImageData(0, 0, width, height), options, img.naturalWidth, img.naturalHeight);
+};
+
+export const getVector = (batch: BatchItem, mode: ResultMode, slot: number): VectorTrace | undefined => {
+  const trace = batch.vectors?.[slotKey(mode, slot)];
+  return trace && trace.versionId === getHeadId(batch, mode, slot) ? trace : undefined;
+};
+
+export const setVector = (batch: BatchItem, mode: ResultMode, slot: number, svg: string, colors: number): BatchItem => ({
+  ...batch,
+  vectors: { ...batch.vectors, [slotKey(mode, slot)]: { svg, colors, versionId: getHeadId(batch, mode, slot) } },
+});
+
+export const clearVectors = (batch: BatchItem, mode: ResultMode): Record<string, VectorTrace> =>
+  Object.fromEntries(Object.entries(batch.vectors ?? {}).filter(([k]) => !k.startsWith(`${mode}:`)));
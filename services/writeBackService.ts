@@ -0,0 +1,86 @@
+import { BatchItem, WriteBackSettings } from "../types";
+import { parseSheetUrl } from "./sheetService";
+import { getSetting, setSetting } from "./storageService";
+
+export const DEFAULT_WRITE_BACK_SETTINGS: WriteBackSettings = {
+  enabled: false,
+  endpoint: '',
+  payload: 'filenames',
+  auto: true,
+};
+
+export interface WriteBackResult {
+  mode: 'normal' | 'pro';
+  index: number;
+  fileName: string;
+  image?: string;
+}
+
+export interface WriteBackPayload {
+  sheetId: string;
+  gid: string;
+  row: number;
+  name: string;
+  status: BatchItem['status'];
+  error: string | null;
+  results: WriteBackResult[];
+  sentAt: string;
+}
+
+// Trùng với đường dẫn file trong ZIP của downloadProject
+export const resultFileName = (batchName: string, mode: 'normal' | 'pro', index: number) => {
+  const label = mode === 'pro' ? 'Pro' : 'Normal';
+  return `${batchName}/${label}/${batchName} ${label} ${index + 1}.png`;
+};
+
+// Batch import trước khi lưu sourceSheetUrl không biết sheet nguồn nên không write-back được
+export const canWriteBack = (batch: BatchItem) => !!batch.sourceRow && !!batch.sourceSheetUrl;
+
+export const buildWriteBackPayload = (batch: BatchItem, settings: WriteBackSettings): WriteBackPayload => {
+  if (!batch.sourceRow || !batch.sourceSheetUrl) throw new Error("Batch không gắn với dòng nào trong sheet.");
+  const { sheetId, gid } = parseSheetUrl(batch.sourceSheetUrl);
+  const toResults = (mode: 'normal' | 'pro', images: string[]): WriteBackResult[] =>
+    images.map((image, index) => ({
+      mode,
+      index,
+      fileName: resultFileName(batch.name, mode, index),
+      image: settings.payload === 'data' ? image : undefined,
+    }));
+
+  return {
+    sheetId,
+    gid,
+    row: batch.sourceRow,
+    name: batch.name,
+    status: batch.status,
+    error: batch.error ?? null,
+    results: [...toResults('normal', batch.resultsNormal), ...toResults('pro', batch.resultsPro)],
+    sentAt: new Date().toISOString(),
+  };
+};
+
+export const postWriteBack = async (endpoint: string, payload: WriteBackPayload): Promise<void> => {
+  // Apps Script không trả lời preflight CORS nên phải gửi dạng text/plain (simple request)
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) throw new Error(`Write-back thất bại (HTTP ${response.status}).`);
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text);
+    if (body && body.ok === false) throw new Error(body.error || "Endpoint trả về lỗi.");
+  } catch (e) {
+    if (!(e instanceof SyntaxError)) throw e;
+  }
+};
+
+export const loadWriteBackSettings = async (): Promise<WriteBackSettings> => {
+  const saved = await getSetting<WriteBackSettings>('writeBackSettings');
+  return { ...DEFAULT_WRITE_BACK_SETTINGS, ...saved };
+};
+
+export const saveWriteBackSettings = async (settings: WriteBackSettings): Promise<void> => {
+  await setSetting('writeBackSettings', settings);
+};
@@ -1,25 +1,270 @@
 
 export interface ImageFile {
   id: string;
-  file: File;
+  // Chỉ có với ảnh người dùng chọn từ máy; ảnh tải theo URL chỉ giữ base64 (tên lấy từ preview)
+  file?: File;
   preview: string;
   base64: string;
+  mimeType?: string;
+}
+
+export type JobState = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  state: JobState;
+  attempt: number;
+  // Lỗi (kèm response) của riêng job này khi state là 'failed'
+  failure?: GenerationFailure;
+}
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+export interface GenerationSettings {
+  // id trong IMAGE_PROVIDERS
+  provider: string;
+  aspectRatio: string;
+  imageSize: ImageSize;
+  normalModel: string;
+  proModel: string;
+}
+
+export interface SafetyRating {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+// Phần còn lại của response ngoài ảnh: text model viết kèm, lý do dừng, phản hồi an toàn
+export interface ResponseMetadata {
+  text?: string;
+  finishReason?: string;
+  finishMessage?: string;
+  blockReason?: string;
+  blockReasonMessage?: string;
+  safetyRatings?: SafetyRating[];
+  modelVersion?: string;
+}
+
+export interface ResultVersion {
+  id: string;
+  parentId: string | null;
+  mode: 'normal' | 'pro';
+  slot: number;
+  image: string;
+  kind: 'generate' | 'edit' | 'inpaint' | 'adjust' | 'upscale' | 'branch';
+  prompt: string;
+  model: string;
+  // URL ảnh tham khảo (hoặc tên file với ảnh tải lên từ máy)
+  references: string[];
+  response?: ResponseMetadata;
+  createdAt: number;
+}
+
+export interface ResultPick {
+  status?: 'favorite' | 'rejected';
+  // 1-5 sao, undefined = chưa chấm
+  rating?: number;
+}
+
+export interface VectorTrace {
+  svg: string;
+  colors: number;
+  // Version được trace; slot đổi ảnh thì SVG cũ không còn khớp
+  versionId: string | null;
+}
+
+export interface ListingMetadata {
+  brand: string;
+  title: string;
+  bullets: [string, string];
+  description: string;
+  tags: string[];
+  updatedAt: number;
+  // Version được viết listing; slot đổi ảnh (restore/branch/edit) thì listing cũ không còn khớp
+  versionId?: string | null;
+}
+
+export type GenerationErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'malformed' | 'unknown';
+
+// Lỗi generate đã phân loại, lưu trên batch để hiển thị hướng xử lý
+export interface GenerationFailure {
+  kind: GenerationErrorKind;
+  message: string;
+  finishReason?: string;
+  modelText?: string;
+  response?: ResponseMetadata;
 }
 
 export interface BatchItem {
   id: string;
   name: string;
   images: (ImageFile | null)[];
-  status: 'idle' | 'processing' | 'completed' | 'error' | 'stopping';
+  status: 'idle' | 'queued' | 'processing' | 'completed' | 'error' | 'stopping';
   processingMode?: 'normal' | 'pro';
+  jobs?: JobProgress[];
   resultsNormal: string[];
   resultsPro: string[];
+  versions?: ResultVersion[];
+  // slotKey(mode, slot) -> id của version đang hiển thị
+  heads?: Record<string, string>;
+  // slotKey(mode, slot) -> đánh giá khi review
+  picks?: Record<string, ResultPick>;
+  // slotKey(mode, slot) -> stack adjustment không phá hủy
+  adjustments?: Record<string, AdjustmentLayer[]>;
+  // slotKey(mode, slot) -> SVG đã vectorize
+  vectors?: Record<string, VectorTrace>;
+  // slotKey(mode, slot) -> nội dung listing cho marketplace
+  listings?: Record<string, ListingMetadata>;
   customPrompt?: string;
+  templateId?: string;
+  fields?: Record<string, string>;
+  tags?: string[];
+  productType?: string;
+  // Số dòng (tính cả header, bắt đầu từ 1) trong Google Sheet nguồn
+  sourceRow?: number;
+  // URL (kèm gid của tab) của sheet lúc import; write-back luôn gửi về đây chứ không theo URL đang nhập
+  sourceSheetUrl?: string;
+  writeBack?: { status: 'sent' | 'failed'; at: number; error?: string };
+  settings?: Partial<GenerationSettings>;
   error?: string;
+  failure?: GenerationFailure;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  builtIn?: boolean;
+  updatedAt: number;
+}
+
+// Chỉ số cột (0 = A) cho từng trường khi import từ Google Sheet
+export interface ColumnMapping {
+  name: number;
+  prompt: number[];
+  images: number[];
+  tags: number | null;
+  productType: number | null;
+}
+
+export interface ImportIssue {
+  row: number;
+  name?: string;
+  reason: string;
+  url?: string;
+  slot?: number;
+}
+
+export interface ImportReport {
+  totalRows: number;
+  imported: number;
+  skippedRows: ImportIssue[];
+  failedImages: ImportIssue[];
+  emptyPrompts: ImportIssue[];
+  createdAt: number;
+}
+
+export interface WriteBackSettings {
+  enabled: boolean;
+  endpoint: string;
+  payload: 'filenames' | 'data';
+  auto: boolean;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  sheetUrl: string;
+  batches: BatchItem[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'updatedAt'>;
+
+interface LayerBase {
+  id: string;
+  enabled: boolean;
+}
+
+// Layer được áp theo thứ tự trong stack lên ảnh gốc khi xem trước và khi export; ảnh gốc không bị ghi đè
+export type AdjustmentLayer = LayerBase & (
+  // Cắt theo % mỗi cạnh để không phụ thuộc độ phân giải
+  | { type: 'crop'; left: number; top: number; right: number; bottom: number }
+  | { type: 'flip'; horizontal: boolean; vertical: boolean }
+  | { type: 'rotate'; angle: number }
+  | { type: 'brightnessContrast'; brightness: number; contrast: number }
+  | { type: 'hueSaturation'; hue: number; saturation: number; lightness: number }
+  | { type: 'levels'; inputBlack: number; inputWhite: number; gamma: number; outputBlack: number; outputWhite: number }
+  | { type: 'sharpen'; amount: number }
+  // Pixel có kênh sáng nhất <= threshold bị ép về #000
+  | { type: 'blackPoint'; threshold: number }
+);
+
+export type AdjustmentLayerType = AdjustmentLayer['type'];
+
+export interface AdjustmentPreset {
+  id: string;
+  name: string;
+  layers: AdjustmentLayer[];
+  updatedAt: number;
+}
+
+export interface MockupSettings {
+  templateId: string;
+  // templateId -> màu phôi đang chọn
+  colors: Record<string, string>;
+  scale: number;
+  // Độ lệch theo tỉ lệ kích thước vùng in (-0.5 .. 0.5)
+  offsetX: number;
+  offsetY: number;
+  knockout: boolean;
+  // Template được render kèm artwork khi export ZIP
+  exportTemplates: string[];
+}
+
+export interface UsageRecord {
+  id: string;
+  projectId: string;
+  batchId?: string;
+  // Tên batch lúc gọi, để dashboard vẫn đọc được khi batch đã bị xóa
+  batchName?: string;
+  kind: 'generate' | 'edit' | 'inpaint' | 'listing';
+  provider: string;
+  model: string;
+  imageSize?: ImageSize;
+  outcome: 'success' | 'error' | 'cancelled';
+  latencyMs: number;
+  // USD ước tính; lượt lỗi không tính tiền
+  cost: number;
+  createdAt: number;
+}
+
+export interface UsageBudget {
+  // USD, 0 = không giới hạn
+  cap: number;
+  scope: 'day' | 'project';
+}
+
+export interface ResearchListing {
+  id: string;
+  asin?: string;
+  title: string;
+  thumbnail: string;
+  // Best Sellers Rank, càng nhỏ càng bán chạy
+  bsr?: number;
+  price?: string;
+  url?: string;
+}
+
+export interface ResearchSettings {
+  source: 'paste' | 'endpoint';
+  // {query} được thay bằng từ khóa; không có thì thêm ?q=
+  endpoint: string;
 }
 
-export interface ImageAdjustments {
-  brightness: number;
-  contrast: number;
-  rotation: number;
+export interface ScreeningSettings {
+  // flag = chỉ cảnh báo, block = không cho generate
+  mode: 'off' | 'flag' | 'block';
+  terms: string[];
 }